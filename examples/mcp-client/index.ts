@@ -12,48 +12,7 @@
  *   ts-node examples/mcp-client/index.ts npx @modelcontextprotocol/server-filesystem ~/Documents
  */
 
-import { StdioClient } from '../../src/client.js';
-
-// MCP Protocol types
-interface MCPInitializeParams {
-  protocolVersion: string;
-  capabilities: {
-    roots?: { listChanged?: boolean };
-    sampling?: Record<string, never>;
-  };
-  clientInfo: {
-    name: string;
-    version: string;
-  };
-}
-
-interface MCPInitializeResult {
-  protocolVersion: string;
-  capabilities: {
-    logging?: Record<string, never>;
-    prompts?: { listChanged?: boolean };
-    resources?: { subscribe?: boolean; listChanged?: boolean };
-    tools?: { listChanged?: boolean };
-  };
-  serverInfo: {
-    name: string;
-    version: string;
-  };
-}
-
-interface MCPTool {
-  name: string;
-  description?: string;
-  inputSchema: {
-    type: string;
-    properties?: Record<string, unknown>;
-    required?: string[];
-  };
-}
-
-interface MCPListToolsResult {
-  tools: MCPTool[];
-}
+import { McpStdioClient } from '../../src/mcp.js';
 
 async function main() {
   // Parse command line arguments
@@ -77,16 +36,25 @@ async function main() {
   console.log(`Args: ${serverArgs.join(' ')}`);
   console.log('');
 
-  // Create stdio client
-  const client = new StdioClient({
+  // Create the MCP client; connect() runs the initialize handshake
+  const client = new McpStdioClient({
     command: command || 'node',
     args: serverArgs,
+    clientInfo: {
+      name: 'node-stdio-jsonrpc-example',
+      version: '0.1.0',
+    },
     debug: true, // Enable debug logging
   });
 
-  // Listen for server notifications
-  client.on('notification', (method: string, params?: unknown) => {
-    console.log(`📨 Notification: ${method}`, params);
+  // Log messages sent by the server through MCP
+  client.on('logMessage', ({ level, data }) => {
+    console.log(`📨 [${level}]`, data);
+  });
+
+  // React to tool list changes
+  client.on('toolsChanged', () => {
+    console.log('🔄 Tool list changed');
   });
 
   // Listen for server logs (stderr)
@@ -105,61 +73,39 @@ async function main() {
   });
 
   try {
-    // 1. Connect to the MCP server
+    // 1. Connect and initialize the MCP session
     console.log('🔗 Connecting to MCP server...');
-    await client.connect();
-    console.log('✅ Connected!');
-    console.log('');
-
-    // 2. Initialize the MCP session
-    console.log('🤝 Initializing MCP session...');
-    const initParams: MCPInitializeParams = {
-      protocolVersion: '2024-11-05',
-      capabilities: {
-        roots: { listChanged: true },
-      },
-      clientInfo: {
-        name: 'node-stdio-jsonrpc-example',
-        version: '0.1.0',
-      },
-    };
-
-    const initResult = await client.request<MCPInitializeResult>('initialize', initParams);
+    const initResult = await client.connect();
     console.log('✅ Initialized!');
     console.log('Server Info:', initResult.serverInfo);
     console.log('Capabilities:', JSON.stringify(initResult.capabilities, null, 2));
     console.log('');
 
-    // 3. Send initialized notification
-    client.notify('notifications/initialized');
-
-    // 4. List available tools
+    // 2. List available tools, following pagination cursors
     if (initResult.capabilities.tools) {
       console.log('🔧 Listing available tools...');
-      const toolsResult = await client.request<MCPListToolsResult>('tools/list');
-      console.log(`✅ Found ${toolsResult.tools.length} tool(s):`);
+      const tools = await client.listAllTools();
+      console.log(`✅ Found ${tools.length} tool(s):`);
 
-      for (const tool of toolsResult.tools) {
+      for (const tool of tools) {
         console.log(`  • ${tool.name}: ${tool.description || 'No description'}`);
       }
       console.log('');
     }
 
-    // 5. List available resources (if supported)
+    // 3. List available resources (if supported)
     if (initResult.capabilities.resources) {
       console.log('📚 Listing available resources...');
       try {
-        const resourcesResult = await client.request<{
-          resources: Array<{ uri: string; name?: string }>;
-        }>('resources/list');
-        console.log(`✅ Found ${resourcesResult.resources.length} resource(s):`);
+        const resources = await client.listAllResources();
+        console.log(`✅ Found ${resources.length} resource(s):`);
 
-        for (const resource of resourcesResult.resources.slice(0, 5)) {
+        for (const resource of resources.slice(0, 5)) {
           console.log(`  • ${resource.name || resource.uri}`);
         }
 
-        if (resourcesResult.resources.length > 5) {
-          console.log(`  ... and ${resourcesResult.resources.length - 5} more`);
+        if (resources.length > 5) {
+          console.log(`  ... and ${resources.length - 5} more`);
         }
         console.log('');
       } catch (error) {
@@ -168,7 +114,7 @@ async function main() {
       }
     }
 
-    // 6. Disconnect gracefully
+    // 4. Disconnect gracefully
     console.log('👋 Disconnecting...');
     await client.disconnect();
     console.log('✅ Disconnected successfully');
@@ -1,7 +1,186 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { EventEmitter } from 'node:events';
-import { JSONRPCClient } from '@gnana997/node-jsonrpc/client';
+import { JSONRPCError } from '@gnana997/node-jsonrpc';
+import { defaultEnvStrategy } from './env.js';
+import {
+  ProcessExitedError,
+  type ProtocolError,
+  RequestCancelledError,
+  type ValidationDirection,
+  ValidationError,
+} from './errors.js';
+import {
+  ErrorCodes,
+  type JSONRPCId,
+  type WireError,
+  type WireMessage,
+  type WireRequest,
+  type WireResponse,
+  createNotification,
+  createRequest,
+  isNotification,
+  isRequest,
+  isResponse,
+  toWireError,
+} from './protocol.js';
+import { RestartSupervisor } from './restart.js';
+import { StreamTransport } from './stream-transport.js';
 import { StdioTransport } from './transport.js';
-import type { StdioClientConfig, StdioClientEvents } from './types.js';
+import type {
+  BatchEntry,
+  BatchOptions,
+  BatchResult,
+  CancellationConfig,
+  ClientStats,
+  DisconnectedQueuePolicy,
+  InferResult,
+  LogEntry,
+  LogInfo,
+  MethodName,
+  MethodParams,
+  MethodResult,
+  ParamsArgs,
+  ProcessExitDetails,
+  ProcessExitInfo,
+  ProgressConfig,
+  ProtocolMap,
+  ProtocolSection,
+  RequestHandler,
+  RequestOptions,
+  RestartPolicy,
+  StdioClientConfig,
+  StdioClientEvents,
+  UntypedProtocol,
+  Validator,
+  ValidatorMap,
+} from './types.js';
+import { type ValidationOutcome, runValidator } from './validation.js';
+
+/**
+ * Bookkeeping for a request awaiting its response
+ * @private
+ */
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  cleanup?: () => void;
+  onProgress?: (progress: unknown) => void;
+  /**
+   * Ids of every request sent in the same batch, including this one
+   */
+  batch?: JSONRPCId[];
+}
+
+/**
+ * A request or batch waiting for a slot under `maxConcurrentRequests`
+ * @private
+ */
+interface QueuedRequest {
+  priority: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout | null;
+  cleanup?: () => void;
+}
+
+/**
+ * A call held until the client is connected
+ * @private
+ */
+interface HeldCall {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Identity of the client whose `onRestart` hook the current async context belongs to,
+ * compared by reference so that only the hook's own calls skip the restart gate
+ * @private
+ */
+const restartHookScope = new AsyncLocalStorage<object>();
+
+/**
+ * Built-in cancellation notifications
+ * @private
+ */
+const CANCELLATION_PRESETS: Record<'lsp' | 'mcp', CancellationConfig> = {
+  lsp: { notification: '$/cancelRequest', params: (id) => ({ id }) },
+  mcp: {
+    notification: 'notifications/cancelled',
+    params: (requestId, reason) =>
+      reason instanceof Error || reason === undefined
+        ? { requestId }
+        : { requestId, reason: String(reason) },
+  },
+};
+
+/**
+ * Merge a field into object params; other params shapes are left untouched
+ * @private
+ */
+function withField(params: unknown, key: string, value: unknown): unknown {
+  if (params === undefined) return { [key]: value };
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) return params;
+  return { ...params, [key]: value };
+}
+
+/**
+ * Turn an exception thrown by a validator into a `ValidationError`, so callers see one
+ * error type however validation failed
+ * @private
+ */
+function validatorFailure(
+  method: string,
+  direction: ValidationDirection,
+  part: 'params' | 'result',
+  error: unknown
+): ValidationError {
+  const message = error instanceof Error ? error.message : String(error);
+  return new ValidationError(method, direction, part, [
+    { message: `Validator threw: ${message}`, path: [] },
+  ]);
+}
+
+/**
+ * Built-in progress protocols
+ * @private
+ */
+const PROGRESS_PRESETS: Record<'lsp' | 'mcp', ProgressConfig> = {
+  lsp: {
+    notification: '$/progress',
+    attachToken: (params, token) => withField(params, 'workDoneToken', token),
+    parse: (params) => {
+      const { token, value } = (params ?? {}) as { token?: unknown; value?: unknown };
+      return typeof token === 'string' || typeof token === 'number' ? { token, value } : undefined;
+    },
+  },
+  mcp: {
+    notification: 'notifications/progress',
+    attachToken: (params, token) => {
+      const meta = (params as { _meta?: object } | undefined)?._meta;
+      return withField(params, '_meta', { ...meta, progressToken: token });
+    },
+    parse: (params) => {
+      const { progressToken, ...value } = (params ?? {}) as { progressToken?: unknown };
+      return typeof progressToken === 'string' || typeof progressToken === 'number'
+        ? { token: progressToken, value }
+        : undefined;
+    },
+  },
+};
+
+/**
+ * Promise that holds requests back while the process is being restarted
+ * @private
+ */
+interface RestartGate {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
 
 /**
  * JSON-RPC 2.0 client over stdio (child process)
@@ -35,7 +214,10 @@ import type { StdioClientConfig, StdioClientEvents } from './types.js';
  *   console.log('Notification:', method, params);
  * });
  *
- * // Listen for server logs (stderr)
+ * // Answer requests the server sends back to the client
+ * client.onRequest('roots/list', async () => ({ roots: [] }));
+ *
+ * // Listen for server logs (stderr), one event per line
  * client.on('log', (message) => {
  *   console.log('Server log:', message);
  * });
@@ -44,79 +226,212 @@ import type { StdioClientConfig, StdioClientEvents } from './types.js';
  * await client.disconnect();
  * ```
  */
-export class StdioClient extends EventEmitter<StdioClientEvents> {
-  private config: Required<StdioClientConfig>;
-  private transport: StdioTransport;
-  private client: JSONRPCClient;
+export class StdioClient<P extends ProtocolMap = UntypedProtocol> extends EventEmitter<
+  StdioClientEvents<P>
+> {
+  private config: Required<Omit<StdioClientConfig<P>, 'command' | 'process' | 'streams'>>;
+  private transport: StreamTransport;
+  private connected = false;
+  private nextRequestId = 1;
+  private pendingRequests = new Map<JSONRPCId, PendingRequest>();
+  private activeRequests = 0;
+  private requestQueue: QueuedRequest[] = [];
+  private heldCalls: HeldCall[] = [];
+  private holdPolicy: Required<DisconnectedQueuePolicy> | null;
+  private connecting = false;
+  private requestHandlers = new Map<string, RequestHandler>();
+  private restartPolicy: RestartPolicy<P> | null;
+  private restartSupervisor: RestartSupervisor | null;
+  private restartState: 'idle' | 'scheduled' | 'restarting' = 'idle';
+  private restartTimer: NodeJS.Timeout | null = null;
+  private restartGate: RestartGate | null = null;
+  private runningRestartHook = false;
+  private closing = false;
+  private cancellation: CancellationConfig | null;
+  private progress: ProgressConfig;
 
-  constructor(config: StdioClientConfig) {
+  constructor(config: StdioClientConfig<P>) {
     super();
 
     this.config = {
-      command: config.command,
       args: config.args ?? [],
       cwd: config.cwd ?? process.cwd(),
-      env: config.env ?? process.env,
+      env: config.env ?? {},
+      envStrategy: config.envStrategy ?? defaultEnvStrategy(config.env, config.envFile),
+      envFile: config.envFile ?? [],
+      redactSecrets: config.redactSecrets ?? true,
+      killOnDisconnect: config.killOnDisconnect ?? true,
+      spawn: config.spawn ?? {},
       connectionTimeout: config.connectionTimeout ?? 10000,
       requestTimeout: config.requestTimeout ?? 30000,
       debug: config.debug ?? false,
+      framing: config.framing ?? 'newline',
+      restart: config.restart ?? false,
+      shutdown: config.shutdown ?? {},
+      readiness: config.readiness ?? 'spawn',
+      writeQueue: config.writeQueue ?? {},
+      maxMessageBytes: config.maxMessageBytes ?? 64 * 1024 * 1024,
+      oversizePolicy: config.oversizePolicy ?? 'error',
+      stdoutNoise: config.stdoutNoise ?? 'error',
+      structuredLogs: config.structuredLogs ?? false,
+      logBufferSize: config.logBufferSize ?? 100,
+      cancellation: config.cancellation ?? false,
+      progress: config.progress ?? 'mcp',
+      validators: config.validators ?? {},
+      maxConcurrentRequests: config.maxConcurrentRequests ?? Number.POSITIVE_INFINITY,
+      requestQueue: config.requestQueue ?? {},
+      queueWhileDisconnected: config.queueWhileDisconnected ?? false,
+      autoConnect: config.autoConnect ?? false,
     };
 
-    // Create stdio transport
-    this.transport = new StdioTransport({
-      command: this.config.command,
-      args: this.config.args,
-      cwd: this.config.cwd,
-      env: this.config.env,
+    this.cancellation =
+      typeof this.config.cancellation === 'string'
+        ? CANCELLATION_PRESETS[this.config.cancellation]
+        : this.config.cancellation || null;
+    this.progress =
+      typeof this.config.progress === 'string'
+        ? PROGRESS_PRESETS[this.config.progress]
+        : this.config.progress;
+    this.restartPolicy = this.config.restart === true ? {} : this.config.restart || null;
+    this.restartSupervisor = this.restartPolicy ? new RestartSupervisor(this.restartPolicy) : null;
+
+    const { queueWhileDisconnected, autoConnect } = this.config;
+    const holdPolicy =
+      queueWhileDisconnected === true || (!queueWhileDisconnected && autoConnect)
+        ? {}
+        : queueWhileDisconnected || null;
+    this.holdPolicy = holdPolicy && {
+      maxLength: holdPolicy.maxLength ?? 1000,
+      timeout: holdPolicy.timeout ?? this.config.requestTimeout,
+    };
+
+    // Create the transport: spawn or adopt a process, or use the streams we were given
+    const transportOptions = {
       connectionTimeout: this.config.connectionTimeout,
       debug: this.config.debug,
+      framing: this.config.framing,
+      writeQueue: this.config.writeQueue,
+      maxMessageBytes: this.config.maxMessageBytes,
+      oversizePolicy: this.config.oversizePolicy,
+      stdoutNoise: this.config.stdoutNoise,
+      structuredLogs: this.config.structuredLogs,
+      logBufferSize: this.config.logBufferSize,
+    };
+    const processOptions = {
+      ...transportOptions,
+      killOnDisconnect: this.config.killOnDisconnect,
+      redactSecrets: this.config.redactSecrets,
+      spawn: this.config.spawn,
+      shutdown: this.config.shutdown,
+      readiness: this.config.readiness,
+    };
+    if (config.streams) {
+      this.transport = new StreamTransport({ ...transportOptions, streams: config.streams });
+    } else if (config.process) {
+      this.transport = StdioTransport.fromChildProcess(config.process, processOptions);
+    } else if (config.command !== undefined) {
+      this.transport = new StdioTransport({
+        ...processOptions,
+        command: config.command,
+        args: this.config.args,
+        cwd: this.config.cwd,
+        env: this.config.env,
+        envStrategy: this.config.envStrategy,
+        envFile: this.config.envFile,
+      });
+    } else {
+      throw new Error('Either command, process or streams is required');
+    }
+
+    // Forward transport events
+    this.transport.on('message', (message: string) => {
+      this.handleMessage(message);
     });
 
-    // Create JSON-RPC client using the transport
-    this.client = new JSONRPCClient({
-      transport: this.transport,
-      requestTimeout: this.config.requestTimeout,
-      debug: this.config.debug,
+    this.transport.on('log', (message: string, info: LogInfo) => {
+      this.emit('log', message, info);
     });
 
-    // Forward transport events
-    this.transport.on('log', (message: string) => {
-      this.emit('log', message);
+    this.transport.on('exit', (details: ProcessExitDetails) => {
+      this.handleProcessExit(details);
     });
 
-    this.transport.on('close', () => {
-      this.emit('disconnected');
+    this.transport.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+      this.handleTransportClose(code, signal);
     });
 
     this.transport.on('error', (error: Error) => {
       this.emit('error', error);
     });
 
-    // Setup event forwarding from JSON-RPC client
-    this.setupEventForwarding();
+    this.transport.on('protocolError', (error: ProtocolError) => {
+      this.emit('protocolError', error);
+    });
   }
 
   /**
-   * Connect to the server by spawning the child process
+   * Connect to the server by spawning the child process (or opening `streams`)
+   *
+   * Calls held by `queueWhileDisconnected` or `autoConnect` are sent once connected, or
+   * rejected with the error if the process fails to start.
    */
   async connect(): Promise<void> {
-    await this.client.connect();
-    // Emit connected event after successful connection
-    if (this.client.isConnected()) {
-      this.emit('connected');
+    this.closing = false;
+    this.restartSupervisor?.reset();
+
+    this.connecting = true;
+    try {
+      await this.connectTransport();
+    } catch (error) {
+      this.rejectHeldCalls(error as Error);
+      throw error;
+    } finally {
+      this.connecting = false;
     }
+    this.releaseHeldCalls();
   }
 
   /**
    * Disconnect from the server and terminate the child process
+   *
+   * Sends the configured shutdown request and exit notification (if any), then
+   * stops the process and resolves once it has exited. Cancels any pending
+   * restart; requests waiting for it are rejected.
+   *
+   * @returns How the process exited, or undefined if there was no process
+   *
+   * @example
+   * ```typescript
+   * // LSP-style shutdown
+   * const client = new StdioClient({
+   *   command: 'typescript-language-server',
+   *   args: ['--stdio'],
+   *   framing: 'content-length',
+   *   shutdown: { request: 'shutdown', notification: 'exit' },
+   * });
+   *
+   * const { code, signal } = (await client.disconnect()) ?? {};
+   * ```
    */
-  async disconnect(): Promise<void> {
-    const wasConnected = this.client.isConnected();
-    await this.client.disconnect();
-    // Emit disconnected event after successful disconnection
-    if (wasConnected) {
-      this.emit('disconnected');
+  async disconnect(): Promise<ProcessExitInfo | undefined> {
+    this.closing = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
     }
+    this.restartState = 'idle';
+    this.releaseRestartGate(new Error('Client disconnected during restart'));
+    const unsent = new Error('Client disconnected before the request was sent');
+    this.rejectQueuedRequests(unsent);
+    this.rejectHeldCalls(unsent);
+
+    if (this.isConnected()) {
+      await this.sendShutdownSequence();
+    }
+
+    const exitInfo = await this.transport.disconnect();
+    this.handleDisconnect();
+    return exitInfo;
   }
 
   /**
@@ -124,9 +439,13 @@ export class StdioClient extends EventEmitter<StdioClientEvents> {
    *
    * @param method - The method name to call
    * @param params - The parameters to send (optional)
+   * @param options - Per-call signal, timeout, id, progress callback and queue priority (optional)
    * @returns The result from the server
    * @throws {JSONRPCError} If the server returns an error
-   * @throws {Error} If the request times out or connection fails
+   * @throws {RequestCancelledError} If the request is aborted through `options.signal`
+   * @throws {ValidationError} If the params or the result fail the configured validator
+   * @throws {Error} If the request times out, waits too long in or overflows the request
+   * queue, or connection fails
    *
    * @example
    * ```typescript
@@ -144,10 +463,63 @@ export class StdioClient extends EventEmitter<StdioClientEvents> {
    *   b: 3
    * });
    * console.log(result.result); // 8
+   *
+   * // Abortable request
+   * const controller = new AbortController();
+   * setTimeout(() => controller.abort(), 1000);
+   * await client.request('tools/call', params, { signal: controller.signal });
+   *
+   * // Long-running call with its own timeout and progress updates
+   * await client.request('tools/call', params, {
+   *   timeout: 10 * 60 * 1000,
+   *   onProgress: (progress) => console.log(progress),
+   * });
    * ```
    */
-  async request<TResult = unknown>(method: string, params?: unknown): Promise<TResult> {
-    return await this.client.request<TResult>(method, params);
+  async request<
+    TResult = InferResult,
+    M extends MethodName<ProtocolSection<P, 'requests'>> = MethodName<
+      ProtocolSection<P, 'requests'>
+    >,
+  >(
+    method: M,
+    ...args: ParamsArgs<MethodParams<ProtocolSection<P, 'requests'>, M>, [options?: RequestOptions]>
+  ): Promise<
+    [TResult] extends [InferResult] ? MethodResult<ProtocolSection<P, 'requests'>, M> : TResult
+  > {
+    const [params, options = {}] = args as [unknown?, RequestOptions?];
+
+    const held = this.waitUntilSendable(method);
+    if (held) {
+      await held;
+    }
+
+    const paramsValidator = this.getValidator('requests', method, 'params');
+    const payload = paramsValidator
+      ? await this.validate(paramsValidator, method, 'params', 'outgoing', params)
+      : params;
+
+    const queued = this.acquireSlot(method, options);
+    if (queued) {
+      await queued;
+    }
+    let result: unknown;
+    try {
+      // Requests that were queued through a crash wait for the restart as well
+      if (queued && this.restartGate && !this.inRestartHook()) {
+        await this.restartGate.promise;
+      }
+      result = await this.sendRequest(method, payload, options);
+    } finally {
+      this.releaseSlot();
+    }
+
+    const resultValidator = this.getValidator('requests', method, 'result');
+    return (
+      resultValidator
+        ? this.validate(resultValidator, method, 'result', 'incoming', result)
+        : result
+    ) as never;
   }
 
   /**
@@ -155,6 +527,8 @@ export class StdioClient extends EventEmitter<StdioClientEvents> {
    *
    * @param method - The notification method name
    * @param params - The parameters to send (optional)
+   * @throws {ValidationError} If the params fail a synchronous validator; failures of async
+   * validators are emitted as `error` events and the notification is not sent
    *
    * @example
    * ```typescript
@@ -162,36 +536,991 @@ export class StdioClient extends EventEmitter<StdioClientEvents> {
    * client.notify('log', { level: 'info', message: 'Hello' });
    * ```
    */
-  notify(method: string, params?: unknown): void {
-    this.client.notify(method, params);
+  notify<M extends MethodName<ProtocolSection<P, 'notifications'>>>(
+    method: M,
+    ...args: ParamsArgs<MethodParams<ProtocolSection<P, 'notifications'>, M>>
+  ): void {
+    const held = this.waitUntilSendable(method);
+    if (held) {
+      held.then(
+        () => this.notify(method, ...args),
+        (error: Error) => this.emit('error', error)
+      );
+      return;
+    }
+
+    const validator = this.getValidator('notifications', method, 'params');
+    if (!validator) {
+      this.send(createNotification(method, args[0]));
+      return;
+    }
+
+    let outcome: ValidationOutcome | Promise<ValidationOutcome>;
+    try {
+      outcome = runValidator(validator, args[0]);
+    } catch (error) {
+      throw validatorFailure(method, 'outgoing', 'params', error);
+    }
+    if (!(outcome instanceof Promise)) {
+      if (outcome.issues) throw new ValidationError(method, 'outgoing', 'params', outcome.issues);
+      this.send(createNotification(method, outcome.value));
+      return;
+    }
+    outcome.then(
+      (result) => {
+        if (result.issues) {
+          this.emit('error', new ValidationError(method, 'outgoing', 'params', result.issues));
+        } else {
+          this.send(createNotification(method, result.value));
+        }
+      },
+      (error: unknown) => this.emit('error', validatorFailure(method, 'outgoing', 'params', error))
+    );
+  }
+
+  /**
+   * Send several requests and notifications as one JSON-RPC batch
+   *
+   * The batch is written as a single array message. Responses may arrive in any
+   * order and are matched by id. The returned promise always resolves, with one
+   * `[error, result]` tuple per entry in the original order; notifications
+   * resolve to `[null, undefined]`. Entries whose params fail their validator
+   * resolve to `[ValidationError, undefined]` and are left out of the batch. An error
+   * response without an id (e.g. the server could not parse the batch) fails every entry
+   * still unanswered. A batch with requests takes one slot under `maxConcurrentRequests`.
+   *
+   * @param entries - Requests and notifications (`notification: true`) to send
+   * @param options - Timeout applied to every request in the batch and queue priority (optional)
+   * @throws {Error} If not connected, or the batch cannot be queued
+   *
+   * @example
+   * ```typescript
+   * const [sum, , pong] = await client.batch([
+   *   { method: 'add', params: { a: 1, b: 2 } },
+   *   { method: 'log', params: { message: 'hi' }, notification: true },
+   *   { method: 'ping' },
+   * ]);
+   *
+   * const [error, result] = sum;
+   * if (error) console.error(error.message);
+   * else console.log(result);
+   * ```
+   */
+  async batch(entries: BatchEntry[], options: BatchOptions = {}): Promise<BatchResult[]> {
+    const held = this.waitUntilSendable('batch');
+    if (held) {
+      await held;
+    }
+
+    if (!this.isConnected()) {
+      throw new Error('Not connected');
+    }
+    // An empty array is an invalid batch per the spec
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const prepared = await this.validateBatchParams(entries);
+    const hasRequests = entries.some(
+      (entry, index) => !entry.notification && !(prepared[index] instanceof ValidationError)
+    );
+    const queued = hasRequests ? this.acquireSlot('batch', options) : undefined;
+    if (queued) {
+      await queued;
+      if (!this.isConnected()) {
+        this.releaseSlot();
+        throw new Error('Not connected');
+      }
+    }
+
+    const messages: WireMessage[] = [];
+    const ids: JSONRPCId[] = [];
+    const results = entries.map((entry, index): Promise<BatchResult> => {
+      const params = prepared[index];
+      if (params instanceof ValidationError) {
+        return Promise.resolve([params, undefined]);
+      }
+      if (entry.notification) {
+        messages.push(createNotification(entry.method, params));
+        return Promise.resolve([null, undefined]);
+      }
+
+      const id = this.nextRequestId++;
+      ids.push(id);
+      messages.push(createRequest(id, entry.method, params));
+      const resultValidator = this.getValidator('requests', entry.method, 'result');
+      return this.trackRequest(id, entry.method, options, ids)
+        .then((result) =>
+          resultValidator
+            ? this.validate(resultValidator, entry.method, 'result', 'incoming', result)
+            : result
+        )
+        .then(
+          (result): BatchResult => [null, result],
+          (error: Error): BatchResult => [error, undefined]
+        );
+    });
+
+    if (messages.length > 0) {
+      this.log('Sending batch of', messages.length, 'messages');
+      this.send(messages, ids);
+    }
+    const settled = Promise.all(results);
+    return hasRequests ? settled.finally(() => this.releaseSlot()) : settled;
+  }
+
+  /**
+   * Register a handler for requests sent by the server to the client
+   *
+   * Incoming requests for methods without a handler are answered with
+   * `-32601 Method not found`. Registering a method again replaces the
+   * previous handler.
+   *
+   * @param method - The method name the server calls
+   * @param handler - Sync or async function producing the result
+   * @returns A function that unregisters the handler
+   *
+   * @example
+   * ```typescript
+   * // MCP: let the server discover our roots
+   * client.onRequest('roots/list', async () => ({
+   *   roots: [{ uri: 'file:///workspace', name: 'workspace' }],
+   * }));
+   *
+   * // LSP: answer configuration pulls
+   * client.onRequest('workspace/configuration', (params) => {
+   *   return (params as { items: unknown[] }).items.map(() => ({}));
+   * });
+   * ```
+   */
+  onRequest<M extends MethodName<ProtocolSection<P, 'serverRequests'>>>(
+    method: M,
+    handler: RequestHandler<
+      MethodParams<ProtocolSection<P, 'serverRequests'>, M>,
+      MethodResult<ProtocolSection<P, 'serverRequests'>, M>
+    >
+  ): () => void {
+    this.requestHandlers.set(method, handler as RequestHandler);
+    return () => {
+      if (this.requestHandlers.get(method) === handler) {
+        this.requestHandlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * Recent log lines from the server (stderr, and stdout noise with `stdoutNoise: 'log'`)
+   *
+   * Keeps the last `logBufferSize` lines, including those written just before a crash.
+   *
+   * @example
+   * ```typescript
+   * client.on('disconnected', () => {
+   *   const tail = client.getRecentLogs().map((entry) => entry.message);
+   *   console.error(`Server exited. Last output:\n${tail.join('\n')}`);
+   * });
+   * ```
+   */
+  getRecentLogs(): LogEntry[] {
+    return this.transport.getRecentLogs();
   }
 
   /**
    * Check if connected to the server
    */
   isConnected(): boolean {
-    return this.client.isConnected();
+    return this.transport.isConnected();
+  }
+
+  /**
+   * Current request load: requests in flight and requests waiting in the queue
+   *
+   * @example
+   * ```typescript
+   * const { inFlight, queued } = client.stats();
+   * metrics.gauge('rpc.queue_depth', queued);
+   * ```
+   */
+  stats(): ClientStats {
+    return {
+      inFlight: this.activeRequests,
+      queued: this.requestQueue.length,
+      awaitingConnection: this.heldCalls.length,
+      maxConcurrentRequests: this.config.maxConcurrentRequests,
+    };
   }
 
   /**
-   * Setup event forwarding from the underlying JSON-RPC client
+   * Whether the caller is the restart hook (or code it awaits), whose calls skip the
+   * restart gate and the request queue
    * @private
    */
-  private setupEventForwarding(): void {
-    this.client.on('connected', () => {
-      this.emit('connected');
+  private inRestartHook(): boolean {
+    return this.runningRestartHook && restartHookScope.getStore() === this;
+  }
+
+  /**
+   * Hold a call while a restart is in progress or, if enabled, until the client is connected
+   *
+   * Returns undefined when the call can go ahead, so it is written synchronously.
+   * @private
+   */
+  private waitUntilSendable(method: string): Promise<void> | undefined {
+    // Hold calls until a restart (including its handshake) has finished
+    if (this.restartGate && !this.inRestartHook()) {
+      return this.restartGate.promise;
+    }
+    if (this.isConnected() || !this.holdPolicy) {
+      return undefined;
+    }
+
+    const { maxLength, timeout } = this.holdPolicy;
+    if (this.heldCalls.length >= maxLength) {
+      return Promise.reject(
+        new Error(`Too many calls waiting for a connection (${maxLength}): ${method}`)
+      );
+    }
+
+    const held = new Promise<void>((resolve, reject) => {
+      const call: HeldCall = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.heldCalls = this.heldCalls.filter((candidate) => candidate !== call);
+          reject(new Error(`Call waited more than ${timeout}ms for a connection: ${method}`));
+        }, timeout),
+      };
+      this.heldCalls.push(call);
     });
 
-    this.client.on('disconnected', () => {
-      this.emit('disconnected');
+    if (this.config.autoConnect && !this.connecting) {
+      // A failed connect rejects the held calls with its error
+      this.connect().catch((error: Error) => this.log('Automatic connect failed:', error.message));
+    }
+    return held;
+  }
+
+  /**
+   * Send held calls in call order
+   * @private
+   */
+  private releaseHeldCalls(): void {
+    const calls = this.heldCalls;
+    this.heldCalls = [];
+    for (const call of calls) {
+      clearTimeout(call.timer);
+      call.resolve();
+    }
+  }
+
+  /**
+   * Fail every held call
+   * @private
+   */
+  private rejectHeldCalls(error: Error): void {
+    const calls = this.heldCalls;
+    this.heldCalls = [];
+    for (const call of calls) {
+      clearTimeout(call.timer);
+      call.reject(error);
+    }
+  }
+
+  /**
+   * Take a request slot, or return a promise that settles once the queue hands one over
+   *
+   * Returns undefined when a slot is free, so unqueued requests are written synchronously.
+   * @private
+   */
+  private acquireSlot(
+    method: string,
+    options: { signal?: AbortSignal | undefined; priority?: number | undefined }
+  ): Promise<void> | undefined {
+    // The restart hook must not wait behind requests that wait for the restart
+    const free =
+      this.activeRequests < this.config.maxConcurrentRequests && this.requestQueue.length === 0;
+    if (free || this.inRestartHook()) {
+      this.activeRequests++;
+      return undefined;
+    }
+
+    const { signal } = options;
+    const { maxLength = Number.POSITIVE_INFINITY, timeout = Number.POSITIVE_INFINITY } =
+      this.config.requestQueue;
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError(method, undefined, signal.reason));
+    }
+    if (this.requestQueue.length >= maxLength) {
+      return Promise.reject(new Error(`Request queue is full (${maxLength}): ${method}`));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueuedRequest = {
+        priority: options.priority ?? 0,
+        resolve,
+        reject,
+        timer: null,
+      };
+
+      if (Number.isFinite(timeout)) {
+        entry.timer = setTimeout(() => {
+          this.removeQueuedRequest(entry);
+          reject(new Error(`Request waited more than ${timeout}ms in the queue: ${method}`));
+        }, timeout);
+      }
+      if (signal) {
+        const onAbort = () => {
+          this.removeQueuedRequest(entry);
+          reject(new RequestCancelledError(method, undefined, signal.reason));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        entry.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      // Behind every entry of the same or a higher priority
+      const index = this.requestQueue.findIndex((queued) => queued.priority < entry.priority);
+      this.requestQueue.splice(index === -1 ? this.requestQueue.length : index, 0, entry);
     });
+  }
+
+  /**
+   * Give a slot back and hand free slots to the front of the queue
+   * @private
+   */
+  private releaseSlot(): void {
+    this.activeRequests--;
+    while (this.activeRequests < this.config.maxConcurrentRequests) {
+      const next = this.requestQueue[0];
+      if (!next) return;
 
-    this.client.on('notification', (method: string, params?: unknown) => {
-      this.emit('notification', method, params);
+      this.removeQueuedRequest(next);
+      this.activeRequests++;
+      next.resolve();
+    }
+  }
+
+  /**
+   * Take an entry out of the queue and release its timer and abort listener
+   * @private
+   */
+  private removeQueuedRequest(entry: QueuedRequest): void {
+    const index = this.requestQueue.indexOf(entry);
+    if (index !== -1) {
+      this.requestQueue.splice(index, 1);
+    }
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.cleanup?.();
+  }
+
+  /**
+   * Reject every request still waiting for a slot
+   * @private
+   */
+  private rejectQueuedRequests(error: Error): void {
+    for (const entry of [...this.requestQueue]) {
+      this.removeQueuedRequest(entry);
+      entry.reject(error);
+    }
+  }
+
+  /**
+   * Look up the validator configured for one part of a method
+   * @private
+   */
+  private getValidator(
+    section: keyof ValidatorMap,
+    method: string,
+    part: 'params' | 'result'
+  ): Validator | undefined {
+    const validators = this.config.validators[section] as
+      | Record<string, { params?: Validator; result?: Validator }>
+      | undefined;
+    return validators?.[method]?.[part];
+  }
+
+  /**
+   * Run a validator, resolving to the validated value or rejecting with a `ValidationError`
+   * @private
+   */
+  private async validate(
+    validator: Validator,
+    method: string,
+    part: 'params' | 'result',
+    direction: ValidationDirection,
+    value: unknown
+  ): Promise<unknown> {
+    let outcome: ValidationOutcome;
+    try {
+      outcome = await runValidator(validator, value);
+    } catch (error) {
+      throw validatorFailure(method, direction, part, error);
+    }
+    if (outcome.issues) {
+      throw new ValidationError(method, direction, part, outcome.issues);
+    }
+    return outcome.value;
+  }
+
+  /**
+   * Validate the params of every batch entry; invalid entries map to their `ValidationError`
+   * @private
+   */
+  private async validateBatchParams(entries: BatchEntry[]): Promise<unknown[]> {
+    const validators = entries.map((entry) =>
+      this.getValidator(entry.notification ? 'notifications' : 'requests', entry.method, 'params')
+    );
+    // Keep the synchronous path when nothing is validated
+    if (!validators.some(Boolean)) {
+      return entries.map((entry) => entry.params);
+    }
+
+    return Promise.all(
+      entries.map((entry, index) => {
+        const validator = validators[index];
+        if (!validator) return entry.params;
+        return this.validate(validator, entry.method, 'params', 'outgoing', entry.params).catch(
+          (error: Error) => error
+        );
+      })
+    );
+  }
+
+  /**
+   * Spawn the process and emit `connected`
+   * @private
+   */
+  private async connectTransport(): Promise<void> {
+    await this.transport.connect();
+    if (this.transport.isConnected() && !this.connected) {
+      this.connected = true;
+      this.emit('connected');
+    }
+  }
+
+  /**
+   * Write a request and track it until its response arrives, it times out or it is aborted
+   * @private
+   */
+  private sendRequest<TResult>(
+    method: string,
+    params: unknown,
+    options: RequestOptions
+  ): Promise<TResult> {
+    const { signal, onProgress } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError(method, undefined, signal.reason));
+    }
+    if (!this.isConnected()) {
+      return Promise.reject(new Error('Not connected'));
+    }
+    if (options.id !== undefined && this.pendingRequests.has(options.id)) {
+      return Promise.reject(new Error(`Duplicate request id: ${options.id}`));
+    }
+
+    const id = options.id ?? this.nextRequestId++;
+    const payload = onProgress ? this.progress.attachToken(params, id) : params;
+
+    const response = this.trackRequest<TResult>(id, method, options);
+    this.send(createRequest(id, method, payload), [id]);
+    return response;
+  }
+
+  /**
+   * Register a pending request and return a promise settled by its response, timeout or abort
+   * @private
+   */
+  private trackRequest<TResult>(
+    id: JSONRPCId,
+    method: string,
+    options: RequestOptions,
+    batch?: JSONRPCId[]
+  ): Promise<TResult> {
+    const { signal, onProgress } = options;
+    const timeout = options.timeout ?? this.config.requestTimeout;
+
+    return new Promise<TResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.takePendingRequest(id);
+        reject(new Error(`Request timeout after ${timeout}ms: ${method}`));
+      }, timeout);
+
+      const pending: PendingRequest = {
+        method,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        timer,
+      };
+      if (onProgress) {
+        pending.onProgress = onProgress;
+      }
+      if (batch) {
+        pending.batch = batch;
+      }
+
+      if (signal) {
+        const onAbort = () => {
+          if (!this.takePendingRequest(id)) return;
+          this.sendCancellation(id, signal.reason);
+          reject(new RequestCancelledError(method, id, signal.reason));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        pending.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.pendingRequests.set(id, pending);
     });
+  }
 
-    this.client.on('error', (error: Error) => {
-      this.emit('error', error);
+  /**
+   * Remove a pending request and release its timer and abort listener
+   * @private
+   */
+  private takePendingRequest(id: JSONRPCId): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return undefined;
+
+    this.pendingRequests.delete(id);
+    clearTimeout(pending.timer);
+    pending.cleanup?.();
+    return pending;
+  }
+
+  /**
+   * Tell the server an aborted request is no longer wanted, if configured
+   * @private
+   */
+  private sendCancellation(id: JSONRPCId, reason: unknown): void {
+    if (!this.cancellation || !this.isConnected()) return;
+
+    const params = this.cancellation.params ? this.cancellation.params(id, reason) : { id };
+    this.log('Cancelling request', id, 'with', this.cancellation.notification);
+    this.send(createNotification(this.cancellation.notification, params));
+  }
+
+  /**
+   * Send the protocol-level shutdown request and exit notification, ignoring failures
+   * @private
+   */
+  private async sendShutdownSequence(): Promise<void> {
+    const { request, requestTimeout = 5000, notification } = this.config.shutdown;
+
+    if (request) {
+      try {
+        await this.sendRequest(request, undefined, { timeout: requestTimeout });
+      } catch (error) {
+        this.log('Shutdown request failed:', (error as Error).message);
+      }
+    }
+
+    if (notification && this.isConnected()) {
+      this.send(createNotification(notification, undefined));
+    }
+  }
+
+  /**
+   * Serialize and write a message through the transport
+   *
+   * A failed write rejects the requests in `requestIds`; failures of messages nobody
+   * is waiting on (notifications, responses) are emitted as `error` events.
+   * @private
+   */
+  private send(message: WireMessage | WireMessage[], requestIds: JSONRPCId[] = []): void {
+    const notification = !Array.isArray(message) && isNotification(message);
+
+    this.transport.write(JSON.stringify(message), { notification }).catch((error: Error) => {
+      this.log('Write failed:', error.message);
+      if (requestIds.length === 0) {
+        this.emit('error', error);
+        return;
+      }
+      for (const id of requestIds) {
+        this.takePendingRequest(id)?.reject(error);
+      }
     });
   }
+
+  /**
+   * Route an incoming message to the pending request, request handler or notification listeners
+   * @private
+   */
+  private handleMessage(raw: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.emit('error', new Error(`Received invalid JSON from server: ${raw}`));
+      return;
+    }
+
+    if (!Array.isArray(message)) {
+      this.dispatchMessage(message);
+      return;
+    }
+
+    // Batch responses arrive as an array; entries are matched to their requests by id.
+    // Errors without an id go last, so they only fail the entries left unanswered.
+    const batch = this.findBatch(message);
+    const unattributed = message.filter((entry) => isResponse(entry) && entry.id === null);
+    for (const entry of message) {
+      if (!unattributed.includes(entry)) this.dispatchMessage(entry);
+    }
+    for (const entry of unattributed) {
+      this.handleResponse(entry as WireResponse, batch);
+    }
+  }
+
+  /**
+   * Ids of the batch a batch response belongs to, found through any of its matched ids
+   * @private
+   */
+  private findBatch(messages: unknown[]): JSONRPCId[] | undefined {
+    for (const entry of messages) {
+      if (!isResponse(entry) || entry.id === null) continue;
+      const batch = this.pendingRequests.get(entry.id)?.batch;
+      if (batch) return batch;
+    }
+    return undefined;
+  }
+
+  /**
+   * The oldest batch that has not received any response yet
+   * @private
+   */
+  private oldestUnansweredBatch(): JSONRPCId[] | undefined {
+    for (const pending of this.pendingRequests.values()) {
+      if (pending.batch?.every((id) => this.pendingRequests.has(id))) return pending.batch;
+    }
+    return undefined;
+  }
+
+  /**
+   * Route a single parsed message
+   * @private
+   */
+  private dispatchMessage(message: unknown): void {
+    if (isResponse(message)) {
+      this.handleResponse(message);
+    } else if (isRequest(message)) {
+      void this.handleServerRequest(message);
+    } else if (isNotification(message)) {
+      this.handleNotification(message.method, message.params);
+    } else {
+      this.emit(
+        'error',
+        new Error(`Received invalid JSON-RPC message from server: ${JSON.stringify(message)}`)
+      );
+    }
+  }
+
+  /**
+   * Validate an incoming notification, dropping it with an `error` event if it is invalid
+   * @private
+   */
+  private handleNotification(method: string, params: unknown): void {
+    const validator = this.getValidator('serverNotifications', method, 'params');
+    if (!validator) {
+      this.deliverNotification(method, params);
+      return;
+    }
+
+    let outcome: ValidationOutcome | Promise<ValidationOutcome>;
+    try {
+      outcome = runValidator(validator, params);
+    } catch (error) {
+      this.emit('error', error as Error);
+      return;
+    }
+    const deliver = (result: ValidationOutcome) => {
+      if (result.issues) {
+        this.emit('error', new ValidationError(method, 'incoming', 'params', result.issues));
+      } else {
+        this.deliverNotification(method, result.value);
+      }
+    };
+    if (outcome instanceof Promise) {
+      outcome.then(deliver, (error: Error) => this.emit('error', error));
+    } else {
+      deliver(outcome);
+    }
+  }
+
+  /**
+   * Deliver progress updates to their request and emit the notification
+   * @private
+   */
+  private deliverNotification(method: string, params: unknown): void {
+    if (method === this.progress.notification) {
+      const update = this.progress.parse(params);
+      const onProgress = update && this.pendingRequests.get(update.token)?.onProgress;
+      if (update && onProgress) {
+        try {
+          onProgress(update.value);
+        } catch (error) {
+          this.emit('error', error as Error);
+        }
+      }
+    }
+
+    // The protocol map only narrows the listener types; any method can arrive on the wire
+    (this as unknown as StdioClient).emit('notification', method, params);
+  }
+
+  /**
+   * Settle the pending request matching a response
+   * @private
+   */
+  private handleResponse(response: WireResponse, batch?: JSONRPCId[]): void {
+    if (response.id === null && response.error) {
+      this.rejectBatch(response.error, batch ?? this.oldestUnansweredBatch());
+      return;
+    }
+
+    const pending = response.id === null ? undefined : this.takePendingRequest(response.id);
+    if (!pending) {
+      this.log('Ignoring response for unknown request id:', response.id);
+      return;
+    }
+
+    if (response.error) {
+      const { code, message, data } = response.error;
+      pending.reject(new JSONRPCError(code, message, data));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  /**
+   * Fail the unanswered entries of a batch with an error response that has no id, e.g.
+   * because the server could not parse the batch or one of its entries
+   * @private
+   */
+  private rejectBatch(error: WireError, batch: JSONRPCId[] | undefined): void {
+    if (!batch) {
+      this.log('Ignoring error response without id:', error.message);
+      return;
+    }
+    const { code, message, data } = error;
+    for (const id of batch) {
+      this.takePendingRequest(id)?.reject(new JSONRPCError(code, message, data));
+    }
+  }
+
+  /**
+   * Dispatch a server-to-client request to its registered handler and send the response
+   * @private
+   */
+  private async handleServerRequest(request: WireRequest): Promise<void> {
+    const { id, method, params } = request;
+    const handler = this.requestHandlers.get(method);
+
+    if (!handler) {
+      this.log('No handler for server request:', method);
+      this.send({
+        jsonrpc: '2.0',
+        id,
+        error: { code: ErrorCodes.MethodNotFound, message: 'Method not found', data: { method } },
+      });
+      return;
+    }
+
+    const paramsValidator = this.getValidator('serverRequests', method, 'params');
+    let input = params;
+    if (paramsValidator) {
+      let outcome: ValidationOutcome;
+      try {
+        outcome = await runValidator(paramsValidator, params);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.log('Validator for server request', method, 'failed:', message);
+        this.send({ jsonrpc: '2.0', id, error: { code: ErrorCodes.InternalError, message } });
+        return;
+      }
+      if (outcome.issues) {
+        const error = new ValidationError(method, 'incoming', 'params', outcome.issues);
+        this.log('Rejecting server request:', error.message);
+        this.send({
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: ErrorCodes.InvalidParams,
+            message: 'Invalid params',
+            data: { path: error.path, issues: error.issues },
+          },
+        });
+        return;
+      }
+      input = outcome.value;
+    }
+
+    try {
+      let result = await handler(input, { id, method });
+      const resultValidator = this.getValidator('serverRequests', method, 'result');
+      if (resultValidator) {
+        result = await this.validate(resultValidator, method, 'result', 'outgoing', result);
+      }
+      this.send({ jsonrpc: '2.0', id, result: result === undefined ? null : result });
+    } catch (error) {
+      this.log('Handler for', method, 'failed:', (error as Error)?.message ?? error);
+      this.send({ jsonrpc: '2.0', id, error: toWireError(error) });
+    }
+  }
+
+  /**
+   * React to the child process exiting on its own
+   * @private
+   */
+  private handleTransportClose(code: number | null, signal: NodeJS.Signals | null): void {
+    this.handleDisconnect();
+
+    // Failures while respawning are retried by restart() itself
+    if (this.closing || this.restartState !== 'idle') return;
+
+    if (this.restartSupervisor?.shouldRestart(code, signal)) {
+      this.scheduleRestart(code, signal);
+    }
+  }
+
+  /**
+   * Schedule the next respawn with backoff, or give up once the budget is spent
+   * @private
+   */
+  private scheduleRestart(code: number | null, signal: NodeJS.Signals | null): void {
+    const next = this.restartSupervisor?.next();
+    if (!next) {
+      const error = new Error(
+        `Process exited (code: ${code}, signal: ${signal}) and the restart limit was reached`
+      );
+      this.restartState = 'idle';
+      this.releaseRestartGate(error);
+      this.emit('gaveUp', error);
+      return;
+    }
+
+    if (!this.restartGate) {
+      let resolve!: () => void;
+      let reject!: (error: Error) => void;
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      // Waiters handle the rejection; avoid an unhandled rejection when nobody waits
+      promise.catch(() => {});
+      this.restartGate = { promise, resolve, reject };
+    }
+
+    this.log('Restarting in', next.delay, 'ms (attempt', next.attempt, ')');
+    this.restartState = 'scheduled';
+    this.emit('restarting', { attempt: next.attempt, delay: next.delay, code, signal });
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      void this.restart(next.attempt);
+    }, next.delay);
+  }
+
+  /**
+   * Respawn the process and re-run the restart hook before releasing queued requests
+   * @private
+   */
+  private async restart(attempt: number): Promise<void> {
+    this.restartState = 'restarting';
+
+    try {
+      await this.connectTransport();
+
+      if (this.restartPolicy?.onRestart) {
+        this.runningRestartHook = true;
+        try {
+          const { onRestart } = this.restartPolicy;
+          await restartHookScope.run(this, () => onRestart(this));
+        } finally {
+          this.runningRestartHook = false;
+        }
+      }
+
+      if (!this.transport.isConnected()) {
+        throw new Error('Process exited during restart');
+      }
+    } catch (error) {
+      if (this.closing) return;
+      this.log('Restart attempt', attempt, 'failed:', (error as Error).message);
+
+      if (this.transport.isConnected()) {
+        await this.transport.disconnect();
+        this.handleDisconnect();
+      }
+      this.scheduleRestart(null, null);
+      return;
+    }
+
+    if (this.closing) return;
+    this.restartState = 'idle';
+    this.releaseRestartGate();
+    this.emit('restarted', { attempt });
+  }
+
+  /**
+   * Let requests held during a restart proceed, or fail them with the given error
+   * @private
+   */
+  private releaseRestartGate(error?: Error): void {
+    if (!this.restartGate) return;
+    if (error) {
+      this.restartGate.reject(error);
+    } else {
+      this.restartGate.resolve();
+    }
+    this.restartGate = null;
+  }
+
+  /**
+   * Fail in-flight requests with the exit details unless we stopped the process ourselves
+   * @private
+   */
+  private handleProcessExit(details: ProcessExitDetails): void {
+    if (!this.closing) {
+      this.rejectPendingRequests(
+        (method) => new ProcessExitedError(details, `before response to ${method}`)
+      );
+    }
+    this.emit('exit', details);
+  }
+
+  /**
+   * Reject in-flight requests and emit `disconnected` once per connection
+   * @private
+   */
+  private handleDisconnect(): void {
+    this.rejectPendingRequests(
+      (method) => new Error(`Connection closed before response to ${method}`)
+    );
+
+    if (this.connected) {
+      this.connected = false;
+      this.emit('disconnected');
+    }
+  }
+
+  /**
+   * Reject and forget every pending request
+   * @private
+   */
+  private rejectPendingRequests(createError: (method: string) => Error): void {
+    for (const id of [...this.pendingRequests.keys()]) {
+      const pending = this.takePendingRequest(id);
+      pending?.reject(createError(pending.method));
+    }
+  }
+
+  /**
+   * Debug logging
+   * @private
+   */
+  private log(...args: unknown[]): void {
+    if (this.config.debug) {
+      console.log('[StdioClient]', ...args);
+    }
+  }
 }
@@ -0,0 +1,176 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { EnvStrategy } from './types.js';
+
+/**
+ * Names of variables whose values are redacted by default
+ */
+const SECRET_NAME =
+  /(?:SECRET|TOKEN|PASSWORD|PASSWD|PASSPHRASE|API_?KEY|PRIVATE_?KEY|ACCESS_?KEY|CREDENTIAL|AUTH(?!OR))/i;
+
+/**
+ * Values shorter than this are not redacted, so that flags such as `AUTH=1` do not
+ * garble every log line containing a `1`
+ */
+const MIN_SECRET_LENGTH = 4;
+
+const REDACTED = '[redacted]';
+
+// KEY=value, optionally prefixed with `export`, with a quoted value and an optional
+// trailing comment, or the rest of the line. Quoted values may span lines.
+const ENV_LINE =
+  /^[ \t]*(?:export[ \t]+)?([A-Za-z_][\w.-]*)[ \t]*=(?:[ \t]*('[^']*'|"(?:\\.|[^"\\])*")[ \t]*(?:#[^\r\n]*)?|([^\r\n]*))$/gm;
+
+// In unquoted values `#` only starts a comment after whitespace, so `URL=http://x/#frag`
+// keeps its fragment
+const TRAILING_COMMENT = /[ \t]#.*$/;
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Parse the contents of a `.env` file
+ *
+ * Supports `KEY=value` lines, `export KEY=value`, `#` comments (after whitespace when
+ * trailing an unquoted value), single-quoted values (taken literally) and double-quoted
+ * values (with `\n`, `\r`, `\t` escapes). Lines that do not match are skipped; later
+ * assignments win.
+ * @internal
+ */
+export function parseEnvFile(text: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const [, name, quoted, unquoted = ''] of text.matchAll(ENV_LINE)) {
+    if (name === undefined) continue;
+    variables[name] =
+      quoted === undefined ? unquoted.replace(TRAILING_COMMENT, '').trim() : unquote(quoted);
+  }
+  return variables;
+}
+
+function unquote(quoted: string): string {
+  if (quoted.startsWith("'")) {
+    return quoted.slice(1, -1);
+  }
+  return quoted.slice(1, -1).replace(/\\(.)/g, (_, char: string) => ESCAPES[char] ?? char);
+}
+
+/**
+ * The strategy used when none is configured: `'replace'` once `env` or `envFile` is
+ * given, matching the behaviour of `env` before strategies existed
+ * @internal
+ */
+export function defaultEnvStrategy(
+  env: NodeJS.ProcessEnv | undefined,
+  envFile: string | string[] | undefined
+): EnvStrategy {
+  return env !== undefined || envFile !== undefined ? 'replace' : 'inherit';
+}
+
+/**
+ * Check that `env` and `envFile` are not combined with `envStrategy: 'inherit'`
+ * @internal
+ */
+export function validateEnvOptions(options: {
+  env: NodeJS.ProcessEnv;
+  envFile: string | string[];
+  envStrategy: EnvStrategy;
+}): void {
+  const { env, envFile, envStrategy } = options;
+  if (envStrategy === 'inherit' && (Object.keys(env).length > 0 || envFile.length > 0)) {
+    throw new Error("env and envFile cannot be used with envStrategy 'inherit'");
+  }
+  if (typeof envStrategy === 'object' && !Array.isArray(envStrategy.inherit)) {
+    throw new Error('envStrategy.inherit must be a list of variable names or patterns');
+  }
+}
+
+/**
+ * Build the environment of a child process from the parent's environment, `.env` files
+ * (resolved against `cwd`) and explicit variables according to `envStrategy`
+ * @internal
+ */
+export function resolveEnv(
+  options: {
+    env: NodeJS.ProcessEnv;
+    envFile: string | string[];
+    envStrategy: EnvStrategy;
+    cwd: string;
+  },
+  parent: NodeJS.ProcessEnv = process.env
+): NodeJS.ProcessEnv {
+  const { env, envFile, envStrategy, cwd } = options;
+  if (envStrategy === 'inherit') {
+    return parent;
+  }
+
+  const fromFiles = [envFile].flat().map((file) => loadEnvFile(resolve(cwd, file)));
+  return Object.assign(inherited(envStrategy, parent), ...fromFiles, env);
+}
+
+function inherited(strategy: EnvStrategy, parent: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  if (strategy === 'merge') return { ...parent };
+  if (typeof strategy === 'string') return {};
+
+  const patterns = statelessPatterns(strategy.inherit);
+  const allowed: NodeJS.ProcessEnv = {};
+  for (const [name, value] of Object.entries(parent)) {
+    if (matchesName(name, patterns)) allowed[name] = value;
+  }
+  return allowed;
+}
+
+function loadEnvFile(path: string): Record<string, string> {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read env file ${path}: ${(error as Error).message}`);
+  }
+  return parseEnvFile(text);
+}
+
+// Stateful flags would make repeated test() calls skip matching names
+function statelessPatterns(patterns: Array<string | RegExp>): Array<string | RegExp> {
+  return patterns.map((pattern) =>
+    typeof pattern === 'string'
+      ? pattern
+      : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+  );
+}
+
+function matchesName(name: string, patterns: Array<string | RegExp>): boolean {
+  return patterns.some((pattern) =>
+    typeof pattern === 'string' ? pattern === name : pattern.test(name)
+  );
+}
+
+/**
+ * Create a function that replaces the values of secret variables in `env` with
+ * `[redacted]`
+ *
+ * @param redact - `true` for variables with secret-looking names, plus any listed names
+ *   or patterns; `false` to leave text unchanged
+ * @internal
+ */
+export function createRedactor(
+  env: NodeJS.ProcessEnv,
+  redact: boolean | Array<string | RegExp>
+): (text: string) => string {
+  if (redact === false) return (text) => text;
+
+  const extra = redact === true ? [] : statelessPatterns(redact);
+  const secrets = new Set<string>();
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined || value.length < MIN_SECRET_LENGTH) continue;
+    if (SECRET_NAME.test(name) || matchesName(name, extra)) secrets.add(value);
+  }
+  if (secrets.size === 0) return (text) => text;
+
+  // Longest first, so a secret containing another one is replaced as a whole
+  const sorted = [...secrets].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(sorted.map(escapeRegExp).join('|'), 'g');
+  return (text) => text.replace(pattern, REDACTED);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
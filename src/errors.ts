@@ -0,0 +1,222 @@
+import type { ProcessExitDetails, ValidationIssue } from './types.js';
+
+/**
+ * Thrown when a request is aborted through its `AbortSignal` before a response arrives
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const pending = client.request('tools/call', params, { signal: controller.signal });
+ * controller.abort();
+ *
+ * try {
+ *   await pending;
+ * } catch (error) {
+ *   if (error instanceof RequestCancelledError) {
+ *     console.log(`${error.method} was cancelled`);
+ *   }
+ * }
+ * ```
+ */
+export class RequestCancelledError extends Error {
+  /**
+   * Method of the cancelled request
+   */
+  readonly method: string;
+
+  /**
+   * JSON-RPC id of the cancelled request, if it had been sent
+   */
+  readonly id: string | number | undefined;
+
+  /**
+   * The abort reason passed to `AbortController.abort()`
+   */
+  readonly reason: unknown;
+
+  constructor(method: string, id: string | number | undefined, reason?: unknown) {
+    super(`Request cancelled: ${method}`);
+    this.name = 'RequestCancelledError';
+    this.method = method;
+    this.id = id;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown for requests that were in flight when the server process exited on its own
+ *
+ * Carries the same details as the `exit` event, so a crash can be diagnosed from the
+ * rejected request alone.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.request('tools/call', params);
+ * } catch (error) {
+ *   if (error instanceof ProcessExitedError && error.signal === 'SIGKILL') {
+ *     console.error('Server was killed (OOM?). Last stderr:', error.stderr.join('\n'));
+ *   }
+ * }
+ * ```
+ */
+export class ProcessExitedError extends Error {
+  /**
+   * Exit code, or null if the process was terminated by a signal
+   */
+  readonly code: number | null;
+
+  /**
+   * Signal that terminated the process, or null if it exited on its own
+   */
+  readonly signal: NodeJS.Signals | null;
+
+  /**
+   * PID of the process, if it was spawned
+   */
+  readonly pid: number | undefined;
+
+  /**
+   * Time between spawning and exiting, in milliseconds
+   */
+  readonly uptime: number;
+
+  /**
+   * The last lines the process wrote to stderr
+   */
+  readonly stderr: string[];
+
+  /**
+   * @param details - How the process exited
+   * @param context - Appended to the message, e.g. `'before response to ping'`
+   */
+  constructor(details: ProcessExitDetails, context?: string) {
+    const subject = details.pid === undefined ? 'Process' : `Process ${details.pid}`;
+    const how =
+      details.signal === null
+        ? `exited with code ${details.code}`
+        : `was killed by ${details.signal}`;
+    super(context ? `${subject} ${how} ${context}` : `${subject} ${how}`);
+    this.name = 'ProcessExitedError';
+    this.code = details.code;
+    this.signal = details.signal;
+    this.pid = details.pid;
+    this.uptime = details.uptime;
+    this.stderr = details.stderr;
+  }
+}
+
+/**
+ * What was wrong with a frame received on stdout
+ *
+ * - `'oversize'`: the frame exceeded `maxMessageBytes` and was skipped
+ * - `'invalid-json'`: the frame is not valid JSON
+ * - `'invalid-message'`: the frame is JSON but not a JSON-RPC 2.0 message or batch
+ */
+export type ProtocolErrorReason = 'oversize' | 'invalid-json' | 'invalid-message';
+
+/**
+ * Describes a frame from the server that could not be delivered as a JSON-RPC message
+ *
+ * Emitted as a `protocolError` event; the frame itself is never emitted as a `message`.
+ *
+ * @example
+ * ```typescript
+ * client.on('protocolError', (error) => {
+ *   console.warn(`${error.reason} (${error.bytes} bytes): ${error.snippet}`);
+ * });
+ * ```
+ */
+export class ProtocolError extends Error {
+  /**
+   * Why the frame was rejected
+   */
+  readonly reason: ProtocolErrorReason;
+
+  /**
+   * The start of the offending frame, decoded as UTF-8
+   */
+  readonly snippet: string;
+
+  /**
+   * Size of the frame in bytes (for unterminated lines, the size when the limit was hit)
+   */
+  readonly bytes: number;
+
+  constructor(reason: ProtocolErrorReason, message: string, snippet: string, bytes: number) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.reason = reason;
+    this.snippet = snippet;
+    this.bytes = bytes;
+  }
+}
+
+/**
+ * Thrown when params or a result fail the validator configured for a method
+ *
+ * `direction` tells whether the value was being sent to the server (`'outgoing'`) or was
+ * received from it (`'incoming'`).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.request('add', { a: 'one', b: 2 });
+ * } catch (error) {
+ *   if (error instanceof ValidationError) {
+ *     console.error(error.method, error.part, error.path); // 'add' 'params' ['a']
+ *   }
+ * }
+ * ```
+ */
+export class ValidationError extends Error {
+  /**
+   * Method whose params or result were invalid
+   */
+  readonly method: string;
+
+  /**
+   * `'outgoing'` for values sent to the server, `'incoming'` for values received from it
+   */
+  readonly direction: ValidationDirection;
+
+  /**
+   * Which part of the message was invalid
+   */
+  readonly part: 'params' | 'result';
+
+  /**
+   * Location of the first issue inside the validated value
+   */
+  readonly path: Array<string | number>;
+
+  /**
+   * All issues reported by the validator
+   */
+  readonly issues: ValidationIssue[];
+
+  constructor(
+    method: string,
+    direction: ValidationDirection,
+    part: 'params' | 'result',
+    issues: ValidationIssue[]
+  ) {
+    const first = issues[0];
+    const path = first?.path ?? [];
+    const location = path.length > 0 ? ` at ${path.join('.')}` : '';
+    super(
+      `Invalid ${part} for ${method} (${direction})${location}: ${first?.message ?? 'validation failed'}`
+    );
+    this.name = 'ValidationError';
+    this.method = method;
+    this.direction = direction;
+    this.part = part;
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Whether a validated value was being sent (`'outgoing'`) or received (`'incoming'`)
+ */
+export type ValidationDirection = 'outgoing' | 'incoming';
@@ -0,0 +1,268 @@
+import type { StdioFraming } from './types.js';
+
+const CRLF_CRLF = Buffer.from('\r\n\r\n', 'ascii');
+const NEWLINE = 0x0a;
+const MAX_HEADER_BYTES = 8192;
+
+/**
+ * Incremental decoder that turns raw stdout chunks into complete JSON-RPC messages
+ */
+export interface MessageReader {
+  /**
+   * Feed a chunk of raw bytes and return every message completed by it
+   * @throws {Error} If the stream contains a malformed frame
+   */
+  push(chunk: Buffer): string[];
+
+  /**
+   * Discard any partially received frame
+   */
+  reset(): void;
+}
+
+/**
+ * Size limit shared by the message readers
+ */
+export interface MessageReaderOptions {
+  /**
+   * Frames larger than this are skipped and reported through `onOversize`
+   * @default Infinity
+   */
+  maxMessageBytes?: number;
+
+  /**
+   * Called once per skipped frame with its size (as far as it is known) and its first bytes
+   */
+  onOversize?: (bytes: number, head: Buffer) => void;
+}
+
+/**
+ * Line-delimited JSON framing
+ *
+ * Splits on `\n` at the byte level so multi-byte UTF-8 sequences that straddle
+ * chunk boundaries are decoded intact.
+ */
+export class NewlineMessageReader implements MessageReader {
+  private buffer: Buffer = Buffer.alloc(0);
+  private discarding = false;
+  private readonly maxMessageBytes: number;
+  private readonly onOversize: (bytes: number, head: Buffer) => void;
+
+  constructor(options: MessageReaderOptions = {}) {
+    this.maxMessageBytes = options.maxMessageBytes ?? Number.POSITIVE_INFINITY;
+    this.onOversize = options.onOversize ?? (() => {});
+  }
+
+  push(chunk: Buffer): string[] {
+    let data = chunk;
+
+    // Skip the rest of an oversized line that has already been reported
+    if (this.discarding) {
+      const end = data.indexOf(NEWLINE);
+      if (end === -1) return [];
+      this.discarding = false;
+      data = data.subarray(end + 1);
+    }
+
+    this.buffer = this.buffer.length === 0 ? data : Buffer.concat([this.buffer, data]);
+    const messages: string[] = [];
+
+    let newlineIndex = this.buffer.indexOf(NEWLINE);
+    while (newlineIndex !== -1) {
+      const bytes = this.buffer.subarray(0, newlineIndex);
+      this.buffer = this.buffer.subarray(newlineIndex + 1);
+
+      if (bytes.length > this.maxMessageBytes) {
+        this.onOversize(bytes.length, bytes);
+      } else {
+        const line = bytes.toString('utf8').trim();
+        if (line.length > 0) {
+          messages.push(line);
+        }
+      }
+
+      newlineIndex = this.buffer.indexOf(NEWLINE);
+    }
+
+    if (this.buffer.length > this.maxMessageBytes) {
+      this.onOversize(this.buffer.length, this.buffer);
+      this.buffer = Buffer.alloc(0);
+      this.discarding = true;
+    }
+
+    return messages;
+  }
+
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+    this.discarding = false;
+  }
+}
+
+/**
+ * LSP-style `Content-Length` header framing
+ *
+ * Each message is preceded by a header block terminated by `\r\n\r\n`:
+ *
+ * ```
+ * Content-Length: 52\r\n
+ * Content-Type: application/vscode-jsonrpc; charset=utf-8\r\n
+ * \r\n
+ * {"jsonrpc":"2.0","id":1,"result":null}
+ * ```
+ *
+ * `Content-Length` counts bytes, not characters, so the body is sliced from the
+ * byte buffer before it is decoded.
+ */
+export class ContentLengthMessageReader implements MessageReader {
+  private buffer: Buffer = Buffer.alloc(0);
+  private contentLength: number | null = null;
+  private skipRemaining = 0;
+  private readonly maxMessageBytes: number;
+  private readonly onOversize: (bytes: number, head: Buffer) => void;
+
+  constructor(options: MessageReaderOptions = {}) {
+    this.maxMessageBytes = options.maxMessageBytes ?? Number.POSITIVE_INFINITY;
+    this.onOversize = options.onOversize ?? (() => {});
+  }
+
+  push(chunk: Buffer): string[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+    const messages: string[] = [];
+
+    while (this.skipOversized() && this.readHeader()) {
+      if (this.contentLength === null) continue;
+      if (this.buffer.length < this.contentLength) break;
+
+      const body = this.buffer.subarray(0, this.contentLength).toString('utf8');
+      this.buffer = this.buffer.subarray(this.contentLength);
+      this.contentLength = null;
+
+      if (body.trim().length > 0) {
+        messages.push(body);
+      }
+    }
+
+    return messages;
+  }
+
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+    this.contentLength = null;
+    this.skipRemaining = 0;
+  }
+
+  /**
+   * Drop the body of an oversized frame that has already been reported
+   * @returns false while more of the body is still to come
+   */
+  private skipOversized(): boolean {
+    const skipped = Math.min(this.skipRemaining, this.buffer.length);
+    this.buffer = this.buffer.subarray(skipped);
+    this.skipRemaining -= skipped;
+    return this.skipRemaining === 0;
+  }
+
+  /**
+   * Parse the next header block unless one is already pending
+   * @returns false if the header block is incomplete
+   * @throws {Error} If the header block is malformed or too large
+   */
+  private readHeader(): boolean {
+    if (this.contentLength !== null) return true;
+
+    const headerEnd = this.buffer.indexOf(CRLF_CRLF);
+    if (headerEnd === -1) {
+      if (this.buffer.length > MAX_HEADER_BYTES) {
+        throw new Error(`Header block exceeds ${MAX_HEADER_BYTES} bytes`);
+      }
+      return false;
+    }
+
+    const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+    this.buffer = this.buffer.subarray(headerEnd + CRLF_CRLF.length);
+    const contentLength = parseHeaders(header);
+
+    if (contentLength > this.maxMessageBytes) {
+      this.onOversize(contentLength, this.buffer.subarray(0, contentLength));
+      this.skipRemaining = contentLength;
+    } else {
+      this.contentLength = contentLength;
+    }
+    return true;
+  }
+}
+
+/**
+ * Parse a header block and return the announced body length
+ * @throws {Error} If `Content-Length` is missing or invalid, or the charset is unsupported
+ */
+function parseHeaders(header: string): number {
+  let contentLength: number | null = null;
+
+  for (const line of header.split('\r\n')) {
+    if (line.length === 0) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      throw new Error(`Malformed header line: ${line}`);
+    }
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (name === 'content-length') {
+      contentLength = parseContentLength(value);
+    } else if (name === 'content-type') {
+      assertUtf8Charset(value);
+    }
+  }
+
+  if (contentLength === null) {
+    throw new Error('Missing Content-Length header');
+  }
+
+  return contentLength;
+}
+
+function parseContentLength(value: string): number {
+  // Number() alone would also accept forms such as `0x10`, `1e3`, `+5` and the empty string
+  const length = /^\d+$/.test(value) ? Number(value) : Number.NaN;
+  if (!Number.isSafeInteger(length)) {
+    throw new Error(`Invalid Content-Length header: ${value}`);
+  }
+  return length;
+}
+
+/**
+ * Only UTF-8 bodies are supported; a missing charset defaults to UTF-8 per the LSP spec
+ * @throws {Error} If the Content-Type header names another charset
+ */
+function assertUtf8Charset(contentType: string): void {
+  const charset = /charset=([^;]+)/i.exec(contentType)?.[1]?.trim().toLowerCase();
+  if (charset && charset !== 'utf-8' && charset !== 'utf8') {
+    throw new Error(`Unsupported charset in Content-Type header: ${charset}`);
+  }
+}
+
+/**
+ * Create a reader for the given framing mode
+ */
+export function createMessageReader(
+  framing: StdioFraming,
+  options: MessageReaderOptions = {}
+): MessageReader {
+  return framing === 'content-length'
+    ? new ContentLengthMessageReader(options)
+    : new NewlineMessageReader(options);
+}
+
+/**
+ * Encode a serialized JSON-RPC message for writing to the child's stdin
+ */
+export function encodeMessage(message: string, framing: StdioFraming): string {
+  if (framing === 'content-length') {
+    return `Content-Length: ${Buffer.byteLength(message, 'utf8')}\r\n\r\n${message}`;
+  }
+  return `${message}\n`;
+}
@@ -23,9 +23,92 @@
 // Main client and transport
 export { StdioClient } from './client.js';
 export { StdioTransport } from './transport.js';
+export { StreamTransport } from './stream-transport.js';
+export { StdioClientPool } from './pool.js';
+export { StdioServer } from './server.js';
+
+// Errors
+export {
+  ProcessExitedError,
+  ProtocolError,
+  RequestCancelledError,
+  ValidationError,
+} from './errors.js';
+export type { ProtocolErrorReason, ValidationDirection } from './errors.js';
 
 // Type definitions
-export type { StdioClientConfig, StdioTransportConfig, StdioClientEvents } from './types.js';
+export type {
+  StdioClientConfig,
+  StdioTransportConfig,
+  StreamTransportConfig,
+  StreamTransportOptions,
+  StreamPair,
+  StreamSource,
+  ProcessSpawnOptions,
+  MessageFds,
+  EnvStrategy,
+  StdioClientEvents,
+  StdioFraming,
+  RequestHandler,
+  RequestHandlerContext,
+  RestartPolicy,
+  RestartingInfo,
+  ShutdownPolicy,
+  ClientShutdownPolicy,
+  ProcessExitInfo,
+  ProcessExitDetails,
+  ReadinessStrategy,
+  RequestOptions,
+  RequestQueuePolicy,
+  ClientStats,
+  DisconnectedQueuePolicy,
+  CancellationConfig,
+  ProgressConfig,
+  BatchEntry,
+  BatchOptions,
+  BatchResult,
+  ProtocolMap,
+  UntypedProtocol,
+  MethodSignature,
+  MethodMap,
+  MethodName,
+  MethodParams,
+  MethodResult,
+  ProtocolSection,
+  ParamsArgs,
+  InferResult,
+  NotificationEventArgs,
+  WriteQueuePolicy,
+  WriteOverflowPolicy,
+  WriteOptions,
+  OversizePolicy,
+  StdoutNoiseMode,
+  LogInfo,
+  LogEntry,
+  LogLevel,
+  Validator,
+  ValidatorMap,
+  MethodValidators,
+  ValidationIssue,
+  JsonSchema,
+  JsonSchemaType,
+  StandardSchemaV1,
+  StandardSchemaV1Result,
+  StdioClientPoolConfig,
+  StdioClientPoolEvents,
+  PoolStrategy,
+  PoolRequestOptions,
+  PoolWorkerInfo,
+  StdioServerConfig,
+  StdioServerEvents,
+  NotificationHandler,
+} from './types.js';
+
+// Model Context Protocol types
+export type * from './mcp-types.js';
+
+// Language Server Protocol types
+export type * from './lsp-types.js';
 
 // Re-export commonly used types from @gnana997/node-jsonrpc
 export { JSONRPCError } from '@gnana997/node-jsonrpc';
@@ -0,0 +1,172 @@
+import type { LogInfo, LogLevel } from './types.js';
+
+const NEWLINE = 0x0a;
+const MAX_LINE_BYTES = 64 * 1024;
+
+const NUMERIC_LEVELS: Record<number, LogLevel> = {
+  10: 'trace',
+  20: 'debug',
+  30: 'info',
+  40: 'warn',
+  50: 'error',
+  60: 'fatal',
+};
+
+const LEVEL_NAMES: Record<string, LogLevel> = {
+  trace: 'trace',
+  debug: 'debug',
+  info: 'info',
+  warn: 'warn',
+  warning: 'warn',
+  error: 'error',
+  exception: 'error',
+  fatal: 'fatal',
+  critical: 'fatal',
+};
+
+/**
+ * Re-assembles a log stream into whole lines
+ *
+ * Lines keep their leading whitespace so stack trace frames stay readable. A line
+ * longer than 64 KiB is emitted in pieces rather than buffered without limit.
+ * @internal
+ */
+export class LogLineReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * Feed a chunk and return every line completed by it
+   */
+  push(chunk: Buffer): string[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+    const lines: string[] = [];
+
+    let newlineIndex = this.buffer.indexOf(NEWLINE);
+    while (newlineIndex !== -1) {
+      this.collect(this.buffer.subarray(0, newlineIndex), lines);
+      this.buffer = this.buffer.subarray(newlineIndex + 1);
+      newlineIndex = this.buffer.indexOf(NEWLINE);
+    }
+
+    if (this.buffer.length > MAX_LINE_BYTES) {
+      // Keep a character split across chunks for the next piece instead of garbling it
+      const end = completeUtf8Length(this.buffer);
+      this.collect(this.buffer.subarray(0, end), lines);
+      this.buffer = this.buffer.subarray(end);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Return the unterminated last line, if any (e.g. once the stream has ended)
+   */
+  flush(): string[] {
+    const lines: string[] = [];
+    this.collect(this.buffer, lines);
+    this.buffer = Buffer.alloc(0);
+    return lines;
+  }
+
+  private collect(bytes: Buffer, lines: string[]): void {
+    const line = bytes.toString('utf8').trimEnd();
+    if (line.trim().length > 0) {
+      lines.push(line);
+    }
+  }
+}
+
+/**
+ * Length of `bytes` without a trailing, incomplete UTF-8 sequence
+ * @private
+ */
+function completeUtf8Length(bytes: Buffer): number {
+  // Walk back over at most three continuation bytes to the start of the last character
+  let start = bytes.length - 1;
+  while (start > 0 && bytes.length - start < 4 && (bytes[start] ?? 0) >> 6 === 0b10) {
+    start--;
+  }
+  const lead = bytes[start] ?? 0;
+  const size = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  return start + size > bytes.length ? start : bytes.length;
+}
+
+/**
+ * Describe a log line, parsing it as a JSON record when `structured` is set
+ * @internal
+ */
+export function parseLogLine(
+  line: string,
+  stream: LogInfo['stream'],
+  structured: boolean
+): LogInfo {
+  if (!structured || !line.trimStart().startsWith('{')) {
+    return { stream };
+  }
+
+  let record: unknown;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return { stream };
+  }
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+    return { stream };
+  }
+
+  const fields: Record<string, unknown> = { ...record };
+  const info: LogInfo = { stream };
+
+  const level = takeField(fields, ['level', 'levelname'], normalizeLevel);
+  if (level !== undefined) info.level = level;
+
+  const msg = takeField(fields, ['msg', 'message', 'event'], (value) =>
+    typeof value === 'string' ? value : undefined
+  );
+  if (msg !== undefined) info.msg = msg;
+
+  const time = takeField(fields, ['time', 'timestamp'], normalizeTime);
+  if (time !== undefined) info.time = time;
+
+  info.fields = fields;
+  return info;
+}
+
+/**
+ * Remove and return the first of `keys` whose value `convert` accepts
+ */
+function takeField<T>(
+  fields: Record<string, unknown>,
+  keys: string[],
+  convert: (value: unknown) => T | undefined
+): T | undefined {
+  for (const key of keys) {
+    const value = convert(fields[key]);
+    if (value !== undefined) {
+      delete fields[key];
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function normalizeLevel(value: unknown): LogLevel | undefined {
+  if (typeof value === 'number') {
+    return NUMERIC_LEVELS[value];
+  }
+  if (typeof value === 'string') {
+    return LEVEL_NAMES[value.toLowerCase()];
+  }
+  return undefined;
+}
+
+function normalizeTime(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
@@ -0,0 +1,206 @@
+/**
+ * Language Server Protocol (LSP) types used by `LspStdioClient`
+ *
+ * Covers the lifecycle, text synchronization, diagnostics, configuration and window
+ * messages. Capabilities are typed loosely; see the LSP specification for their contents.
+ */
+
+import type { ProtocolError } from './errors.js';
+import type { LspStdioClient } from './lsp.js';
+import type {
+  LogInfo,
+  ProcessExitDetails,
+  RestartPolicy,
+  RestartingInfo,
+  StdioClientConfig,
+} from './types.js';
+
+/**
+ * Zero-based line and character offset; characters count UTF-16 code units
+ */
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * Range in a text document; `end` is exclusive
+ */
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+/**
+ * A change to a text document: replace `range` with `text`, or the whole document without one
+ */
+export type LspTextDocumentContentChange = { range: LspRange; text: string } | { text: string };
+
+/**
+ * How the server wants document changes to be sent
+ *
+ * - `0` (None): documents are not synchronized
+ * - `1` (Full): every change sends the full text
+ * - `2` (Incremental): changes are sent as ranges
+ */
+export type LspTextDocumentSyncKind = 0 | 1 | 2;
+
+/**
+ * A text document opened through `LspStdioClient.openDocument()`
+ */
+export interface LspTextDocument {
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+/**
+ * Diagnostic severity: 1 Error, 2 Warning, 3 Information, 4 Hint
+ */
+export type LspDiagnosticSeverity = 1 | 2 | 3 | 4;
+
+export interface LspDiagnostic {
+  range: LspRange;
+  severity?: LspDiagnosticSeverity;
+  code?: string | number;
+  source?: string;
+  message: string;
+  tags?: number[];
+  relatedInformation?: unknown[];
+  data?: unknown;
+}
+
+export interface LspPublishDiagnosticsParams {
+  uri: string;
+  version?: number;
+  diagnostics: LspDiagnostic[];
+}
+
+export interface LspWorkspaceFolder {
+  uri: string;
+  name: string;
+}
+
+/**
+ * Capabilities the client announces in `initialize`
+ */
+export interface LspClientCapabilities {
+  workspace?: Record<string, unknown>;
+  textDocument?: Record<string, unknown>;
+  window?: Record<string, unknown>;
+  general?: Record<string, unknown>;
+  experimental?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Capabilities the server returns from `initialize`
+ */
+export interface LspServerCapabilities {
+  textDocumentSync?:
+    | LspTextDocumentSyncKind
+    | {
+        openClose?: boolean;
+        change?: LspTextDocumentSyncKind;
+        save?: boolean | { includeText?: boolean };
+      };
+  [key: string]: unknown;
+}
+
+export interface LspInitializeResult {
+  capabilities: LspServerCapabilities;
+  serverInfo?: { name: string; version?: string };
+}
+
+/**
+ * Message type of `window/logMessage` and `window/showMessage`: 1 Error, 2 Warning, 3 Info,
+ * 4 Log, 5 Debug
+ */
+export type LspMessageType = 1 | 2 | 3 | 4 | 5;
+
+export interface LspMessageParams {
+  type: LspMessageType;
+  message: string;
+}
+
+/**
+ * Configuration for `LspStdioClient`
+ *
+ * `framing` defaults to `'content-length'`, `cancellation` to `'lsp'` and `shutdown` to
+ * the `shutdown` request followed by the `exit` notification.
+ */
+export interface LspStdioClientConfig extends Omit<StdioClientConfig, 'restart' | 'progress'> {
+  /**
+   * Name and version sent to the server during `initialize`
+   */
+  clientInfo?: { name: string; version?: string };
+
+  /**
+   * Root of the workspace, sent as `rootUri` and as the only workspace folder
+   */
+  rootUri?: string | null;
+
+  /**
+   * Workspace folders; defaults to one folder for `rootUri`
+   */
+  workspaceFolders?: LspWorkspaceFolder[];
+
+  /**
+   * Capabilities merged over the ones `LspStdioClient` implements
+   */
+  capabilities?: LspClientCapabilities;
+
+  /**
+   * Server-specific `initializationOptions`
+   */
+  initializationOptions?: unknown;
+
+  /**
+   * Settings returned for `workspace/configuration` requests, looked up by dotted section
+   * @default {}
+   */
+  settings?: Record<string, unknown>;
+
+  /**
+   * Respawn the server when it exits unexpectedly. The handshake is repeated and open
+   * documents are reopened before `onRestart` runs.
+   * @default false
+   */
+  restart?: LspRestartPolicy | boolean;
+}
+
+/**
+ * Restart policy for `LspStdioClient`; `onRestart` receives the LSP client
+ */
+export interface LspRestartPolicy extends Omit<RestartPolicy, 'onRestart'> {
+  onRestart?: (client: LspStdioClient) => Promise<void> | void;
+}
+
+/**
+ * Event map for `LspStdioClient`
+ */
+export type LspStdioClientEvents = {
+  /**
+   * Diagnostics for a document changed; an empty array clears them
+   */
+  diagnostics: [uri: string, diagnostics: LspDiagnostic[]];
+  /**
+   * `window/logMessage` from the server
+   */
+  logMessage: [params: LspMessageParams];
+  /**
+   * `window/showMessage` from the server
+   */
+  showMessage: [params: LspMessageParams];
+  notification: [method: string, params: unknown];
+  log: [message: string, info: LogInfo];
+  error: [error: Error];
+  protocolError: [error: ProtocolError];
+  exit: [details: ProcessExitDetails];
+  connected: [];
+  disconnected: [];
+  restarting: [info: RestartingInfo];
+  restarted: [info: { attempt: number }];
+  gaveUp: [error: Error];
+};
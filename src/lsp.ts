@@ -0,0 +1,483 @@
+import { EventEmitter } from 'node:events';
+import { StdioClient } from './client.js';
+import { ValidationError } from './errors.js';
+import type {
+  LspClientCapabilities,
+  LspDiagnostic,
+  LspInitializeResult,
+  LspMessageParams,
+  LspPosition,
+  LspPublishDiagnosticsParams,
+  LspServerCapabilities,
+  LspStdioClientConfig,
+  LspStdioClientEvents,
+  LspTextDocument,
+  LspTextDocumentContentChange,
+  LspTextDocumentSyncKind,
+  LspWorkspaceFolder,
+} from './lsp-types.js';
+import type { ProcessExitInfo } from './types.js';
+
+/**
+ * Capabilities implemented by `LspStdioClient` itself
+ * @private
+ */
+const DEFAULT_CAPABILITIES: LspClientCapabilities = {
+  workspace: {
+    configuration: true,
+    workspaceFolders: true,
+    didChangeConfiguration: { dynamicRegistration: false },
+  },
+  textDocument: {
+    synchronization: { dynamicRegistration: false, didSave: false, willSave: false },
+    publishDiagnostics: { relatedInformation: true, versionSupport: true },
+  },
+  window: { workDoneProgress: true },
+  general: { positionEncodings: ['utf-16'] },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPublishDiagnosticsParams(params: unknown): params is LspPublishDiagnosticsParams {
+  return (
+    isPlainObject(params) && typeof params.uri === 'string' && Array.isArray(params.diagnostics)
+  );
+}
+
+/**
+ * Recursively merge plain objects; other values in `overrides` replace those in `defaults`
+ * @private
+ */
+function mergeObjects(
+  defaults: Record<string, unknown>,
+  overrides: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    const base = merged[key];
+    merged[key] = isPlainObject(base) && isPlainObject(value) ? mergeObjects(base, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Offset of the first line break at or after `from`, or the text length
+ * @private
+ */
+function lineEnd(text: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 10 || code === 13) return i;
+  }
+  return text.length;
+}
+
+/**
+ * Convert a position to a string offset, clamping characters past the end of the line
+ * @private
+ */
+function offsetAt(text: string, position: LspPosition): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const end = lineEnd(text, offset);
+    if (end === text.length) return text.length;
+    offset = text[end] === '\r' && text[end + 1] === '\n' ? end + 2 : end + 1;
+  }
+  return Math.min(offset + position.character, lineEnd(text, offset));
+}
+
+/**
+ * Apply content changes in order, as the server will
+ * @private
+ */
+function applyChanges(text: string, changes: LspTextDocumentContentChange[]): string {
+  return changes.reduce((current, change) => {
+    if (!('range' in change)) return change.text;
+    const start = offsetAt(current, change.range.start);
+    const end = offsetAt(current, change.range.end);
+    return current.slice(0, start) + change.text + current.slice(Math.max(start, end));
+  }, text);
+}
+
+/**
+ * Language Server Protocol client for servers running as child processes
+ *
+ * Wraps a `StdioClient` with Content-Length framing: `connect()` runs the
+ * `initialize`/`initialized` handshake, `disconnect()` sends `shutdown` and `exit`,
+ * documents are kept in sync with version tracking, diagnostics are collected per URI
+ * and `workspace/configuration` requests are answered from `settings`.
+ *
+ * @example
+ * ```typescript
+ * import { LspStdioClient } from 'node-stdio-jsonrpc/lsp';
+ *
+ * const lsp = new LspStdioClient({
+ *   command: 'typescript-language-server',
+ *   args: ['--stdio'],
+ *   rootUri: 'file:///workspace',
+ * });
+ *
+ * await lsp.connect();
+ * lsp.openDocument('file:///workspace/a.ts', 'typescript', 'const a: number = "x";');
+ *
+ * lsp.on('diagnostics', (uri, diagnostics) => {
+ *   console.log(uri, diagnostics.map((d) => d.message));
+ * });
+ *
+ * const hover = await lsp.client.request('textDocument/hover', {
+ *   textDocument: { uri: 'file:///workspace/a.ts' },
+ *   position: { line: 0, character: 6 },
+ * });
+ *
+ * await lsp.disconnect();
+ * ```
+ */
+export class LspStdioClient extends EventEmitter<LspStdioClientEvents> {
+  /**
+   * The underlying JSON-RPC client, for requests such as `textDocument/hover`
+   */
+  readonly client: StdioClient;
+
+  private clientInfo: { name: string; version?: string } | undefined;
+  private rootUri: string | null;
+  private workspaceFolders: LspWorkspaceFolder[] | null;
+  private capabilities: LspClientCapabilities;
+  private initializationOptions: unknown;
+  private settings: Record<string, unknown>;
+  private initializeResult: LspInitializeResult | undefined;
+  private documents = new Map<string, LspTextDocument>();
+  private diagnostics = new Map<string, LspDiagnostic[]>();
+
+  constructor(config: LspStdioClientConfig) {
+    super();
+
+    const {
+      clientInfo,
+      rootUri,
+      workspaceFolders,
+      capabilities,
+      initializationOptions,
+      settings,
+      restart,
+      ...clientConfig
+    } = config;
+    this.clientInfo = clientInfo;
+    this.rootUri = rootUri ?? null;
+    this.workspaceFolders =
+      workspaceFolders ?? (this.rootUri ? [{ uri: this.rootUri, name: 'workspace' }] : null);
+    this.capabilities = mergeObjects(DEFAULT_CAPABILITIES, capabilities ?? {});
+    this.initializationOptions = initializationOptions;
+    this.settings = settings ?? {};
+
+    const restartPolicy = restart === true ? {} : restart || null;
+    this.client = new StdioClient({
+      framing: 'content-length',
+      cancellation: 'lsp',
+      shutdown: { request: 'shutdown', notification: 'exit' },
+      ...clientConfig,
+      progress: 'lsp',
+      restart: restartPolicy
+        ? {
+            ...restartPolicy,
+            onRestart: async () => {
+              await this.initialize();
+              this.reopenDocuments();
+              await restartPolicy.onRestart?.(this);
+            },
+          }
+        : false,
+    });
+
+    this.client.onRequest('workspace/configuration', (params) => {
+      const { items = [] } = (params ?? {}) as { items?: Array<{ section?: string }> };
+      return items.map((item) => this.getSetting(item.section));
+    });
+    this.client.onRequest('workspace/workspaceFolders', () => this.workspaceFolders);
+    // Dynamic registration is not supported; accept so servers carry on
+    this.client.onRequest('client/registerCapability', () => null);
+    this.client.onRequest('client/unregisterCapability', () => null);
+    this.client.onRequest('window/workDoneProgress/create', () => null);
+
+    this.client.on('notification', (method: string, params: unknown) => {
+      this.handleNotification(method, params);
+    });
+    this.client.on('log', (message, info) => this.emit('log', message, info));
+    this.client.on('error', (error) => this.emit('error', error));
+    this.client.on('protocolError', (error) => this.emit('protocolError', error));
+    this.client.on('exit', (details) => this.emit('exit', details));
+    this.client.on('connected', () => this.emit('connected'));
+    this.client.on('disconnected', () => this.emit('disconnected'));
+    this.client.on('restarting', (info) => this.emit('restarting', info));
+    this.client.on('restarted', (info) => this.emit('restarted', info));
+    this.client.on('gaveUp', (error) => this.emit('gaveUp', error));
+  }
+
+  /**
+   * Spawn the server and perform the `initialize`/`initialized` handshake
+   *
+   * @returns The server's `initialize` result
+   */
+  async connect(): Promise<LspInitializeResult> {
+    await this.client.connect();
+    try {
+      return await this.initialize();
+    } catch (error) {
+      await this.client.disconnect();
+      throw error;
+    }
+  }
+
+  /**
+   * Send `shutdown` and `exit`, then stop the server process
+   *
+   * Open documents and collected diagnostics are forgotten.
+   *
+   * @returns How the process exited, or undefined if there was no process
+   */
+  async disconnect(): Promise<ProcessExitInfo | undefined> {
+    const exitInfo = await this.client.disconnect();
+    this.initializeResult = undefined;
+    this.documents.clear();
+    this.diagnostics.clear();
+    return exitInfo;
+  }
+
+  /**
+   * Check if connected to the server
+   */
+  isConnected(): boolean {
+    return this.client.isConnected();
+  }
+
+  /**
+   * Capabilities the server returned from `initialize`
+   */
+  getServerCapabilities(): LspServerCapabilities | undefined {
+    return this.initializeResult?.capabilities;
+  }
+
+  /**
+   * Name and version the server returned from `initialize`, if any
+   */
+  getServerInfo(): LspInitializeResult['serverInfo'] {
+    return this.initializeResult?.serverInfo;
+  }
+
+  /**
+   * How document changes are sent, from the server's `textDocumentSync` capability
+   */
+  getSyncKind(): LspTextDocumentSyncKind {
+    const sync = this.initializeResult?.capabilities.textDocumentSync;
+    if (typeof sync === 'number') return sync;
+    return sync?.change ?? 0;
+  }
+
+  /**
+   * Open a document with version 1 and send `textDocument/didOpen`
+   *
+   * @throws {Error} If not initialized or the document is already open
+   */
+  openDocument(uri: string, languageId: string, text: string): LspTextDocument {
+    this.requireInitialized();
+    if (this.documents.has(uri)) {
+      throw new Error(`Document already open: ${uri}`);
+    }
+
+    const document: LspTextDocument = { uri, languageId, version: 1, text };
+    this.documents.set(uri, document);
+    if (this.sendsOpenClose()) {
+      this.client.notify('textDocument/didOpen', { textDocument: { ...document } });
+    }
+    return { ...document };
+  }
+
+  /**
+   * Apply changes to an open document, bump its version and send `textDocument/didChange`
+   *
+   * Changes with a `range` are incremental edits; changes without one replace the whole
+   * text. They are sent as given to servers that sync incrementally, and collapsed to the
+   * full text for servers that sync fully.
+   *
+   * @returns The new version
+   * @throws {Error} If the document is not open
+   *
+   * @example
+   * ```typescript
+   * // Insert "!" at the end of the first line of "hello\nworld"
+   * lsp.changeDocument(uri, [
+   *   { range: { start: { line: 0, character: 5 }, end: { line: 0, character: 5 } }, text: '!' },
+   * ]);
+   * ```
+   */
+  changeDocument(uri: string, changes: LspTextDocumentContentChange[]): number {
+    const document = this.documents.get(uri);
+    if (!document) {
+      throw new Error(`Document not open: ${uri}`);
+    }
+
+    document.text = applyChanges(document.text, changes);
+    document.version += 1;
+
+    const syncKind = this.getSyncKind();
+    if (syncKind !== 0) {
+      this.client.notify('textDocument/didChange', {
+        textDocument: { uri, version: document.version },
+        contentChanges: syncKind === 2 ? changes : [{ text: document.text }],
+      });
+    }
+    return document.version;
+  }
+
+  /**
+   * Forget an open document and send `textDocument/didClose`
+   */
+  closeDocument(uri: string): void {
+    if (!this.documents.delete(uri)) return;
+    if (this.sendsOpenClose()) {
+      this.client.notify('textDocument/didClose', { textDocument: { uri } });
+    }
+  }
+
+  /**
+   * The client's copy of an open document
+   */
+  getDocument(uri: string): LspTextDocument | undefined {
+    const document = this.documents.get(uri);
+    return document ? { ...document } : undefined;
+  }
+
+  /**
+   * The latest diagnostics published for a document
+   */
+  getDiagnostics(uri: string): LspDiagnostic[] {
+    return this.diagnostics.get(uri) ?? [];
+  }
+
+  /**
+   * The latest diagnostics for every document that has any, keyed by URI
+   */
+  getAllDiagnostics(): Map<string, LspDiagnostic[]> {
+    return new Map(this.diagnostics);
+  }
+
+  /**
+   * Replace the settings served to `workspace/configuration` and send
+   * `workspace/didChangeConfiguration`
+   */
+  setSettings(settings: Record<string, unknown>): void {
+    this.settings = settings;
+    if (this.initializeResult) {
+      this.client.notify('workspace/didChangeConfiguration', { settings });
+    }
+  }
+
+  /**
+   * Send `initialize` and `initialized`
+   * @private
+   */
+  private async initialize(): Promise<LspInitializeResult> {
+    const params: Record<string, unknown> = {
+      processId: process.pid,
+      rootUri: this.rootUri,
+      workspaceFolders: this.workspaceFolders,
+      capabilities: this.capabilities,
+    };
+    if (this.clientInfo) {
+      params.clientInfo = this.clientInfo;
+    }
+    if (this.initializationOptions !== undefined) {
+      params.initializationOptions = this.initializationOptions;
+    }
+
+    const result = await this.client.request<LspInitializeResult>('initialize', params);
+    this.initializeResult = result;
+    this.client.notify('initialized', {});
+    return result;
+  }
+
+  /**
+   * Reopen tracked documents on a respawned server, keeping their versions
+   * @private
+   */
+  private reopenDocuments(): void {
+    this.diagnostics.clear();
+    if (!this.sendsOpenClose()) return;
+    for (const document of this.documents.values()) {
+      this.client.notify('textDocument/didOpen', { textDocument: { ...document } });
+    }
+  }
+
+  /**
+   * Whether the server wants `didOpen`/`didClose` notifications
+   * @private
+   */
+  private sendsOpenClose(): boolean {
+    const sync = this.initializeResult?.capabilities.textDocumentSync;
+    if (typeof sync === 'number') return sync !== 0;
+    return sync?.openClose ?? false;
+  }
+
+  /**
+   * Look up a dotted section in the settings; unknown sections resolve to null
+   * @private
+   */
+  private getSetting(section: string | undefined): unknown {
+    if (!section) return this.settings;
+
+    let value: unknown = this.settings;
+    for (const key of section.split('.')) {
+      if (!isPlainObject(value) || !(key in value)) return null;
+      value = value[key];
+    }
+    return value;
+  }
+
+  /**
+   * @throws {Error} If the handshake has not completed
+   * @private
+   */
+  private requireInitialized(): void {
+    if (!this.initializeResult) {
+      throw new Error('Not initialized');
+    }
+  }
+
+  /**
+   * Collect diagnostics and turn window messages into typed events, then emit them as
+   * `notification`
+   * @private
+   */
+  private handleNotification(method: string, params: unknown): void {
+    switch (method) {
+      case 'textDocument/publishDiagnostics': {
+        if (!isPublishDiagnosticsParams(params)) {
+          this.emit(
+            'error',
+            new ValidationError(method, 'incoming', 'params', [
+              { message: 'Expected a string uri and a diagnostics array', path: [] },
+            ])
+          );
+          break;
+        }
+        const { uri, diagnostics } = params;
+        if (diagnostics.length === 0) {
+          this.diagnostics.delete(uri);
+        } else {
+          this.diagnostics.set(uri, diagnostics);
+        }
+        this.emit('diagnostics', uri, diagnostics);
+        break;
+      }
+      case 'window/logMessage':
+        this.emit('logMessage', params as LspMessageParams);
+        break;
+      case 'window/showMessage':
+        this.emit('showMessage', params as LspMessageParams);
+        break;
+    }
+
+    this.emit('notification', method, params);
+  }
+}
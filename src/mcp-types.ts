@@ -0,0 +1,405 @@
+/**
+ * Model Context Protocol (MCP) message types and a protocol map for `StdioClient`
+ *
+ * Covers the stdio-relevant subset of the MCP specification (2024-11-05 and 2025-03-26).
+ *
+ * @example
+ * ```typescript
+ * import { StdioClient, type McpProtocol } from 'node-stdio-jsonrpc';
+ *
+ * const client = new StdioClient<McpProtocol>({ command: 'npx', args: ['my-mcp-server'] });
+ * await client.connect();
+ *
+ * const { tools } = await client.request('tools/list', {}); // McpTool[]
+ * ```
+ */
+
+import type { ProtocolError } from './errors.js';
+import type { McpStdioClient } from './mcp.js';
+import type {
+  LogInfo,
+  ProcessExitDetails,
+  RequestOptions,
+  RestartPolicy,
+  RestartingInfo,
+  StdioClientConfig,
+} from './types.js';
+
+/**
+ * Name and version of an MCP client or server
+ */
+export interface McpImplementation {
+  name: string;
+  version: string;
+}
+
+/**
+ * Optional `_meta` field accepted by every request
+ */
+export interface McpRequestMeta {
+  _meta?: {
+    progressToken?: string | number;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Params of paginated list requests
+ */
+export interface McpPaginatedParams extends McpRequestMeta {
+  cursor?: string;
+}
+
+/**
+ * Results of paginated list requests; `nextCursor` is absent on the last page
+ */
+export interface McpPaginatedResult {
+  nextCursor?: string;
+}
+
+export interface McpClientCapabilities {
+  roots?: { listChanged?: boolean };
+  sampling?: Record<string, never>;
+  experimental?: Record<string, unknown>;
+}
+
+export interface McpServerCapabilities {
+  logging?: Record<string, never>;
+  completions?: Record<string, never>;
+  prompts?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  tools?: { listChanged?: boolean };
+  experimental?: Record<string, unknown>;
+}
+
+export interface McpInitializeParams extends McpRequestMeta {
+  protocolVersion: string;
+  capabilities: McpClientCapabilities;
+  clientInfo: McpImplementation;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: McpServerCapabilities;
+  serverInfo: McpImplementation;
+  instructions?: string;
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+  annotations?: Record<string, unknown>;
+}
+
+export interface McpListToolsResult extends McpPaginatedResult {
+  tools: McpTool[];
+}
+
+export interface McpCallToolParams extends McpRequestMeta {
+  name: string;
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * A piece of content in a tool result or prompt message
+ */
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: McpResourceContents };
+
+export interface McpCallToolResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Contents of a resource: `text` for text resources, base64 `blob` for binary ones
+ */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface McpListResourcesResult extends McpPaginatedResult {
+  resources: McpResource[];
+}
+
+export interface McpListResourceTemplatesResult extends McpPaginatedResult {
+  resourceTemplates: McpResourceTemplate[];
+}
+
+export interface McpReadResourceResult {
+  contents: McpResourceContents[];
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export interface McpListPromptsResult extends McpPaginatedResult {
+  prompts: McpPrompt[];
+}
+
+export interface McpGetPromptParams extends McpRequestMeta {
+  name: string;
+  arguments?: Record<string, string>;
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpContent;
+}
+
+export interface McpGetPromptResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+/**
+ * Severity levels for `logging/setLevel` and `notifications/message` (RFC 5424)
+ */
+export type McpLoggingLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
+export interface McpLoggingMessageParams {
+  level: McpLoggingLevel;
+  logger?: string;
+  data: unknown;
+}
+
+export interface McpProgressParams {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface McpCancelledParams {
+  requestId: string | number;
+  reason?: string;
+}
+
+export interface McpRoot {
+  uri: string;
+  name?: string;
+}
+
+export interface McpCreateMessageParams extends McpRequestMeta {
+  messages: McpPromptMessage[];
+  maxTokens: number;
+  systemPrompt?: string;
+  temperature?: number;
+  stopSequences?: string[];
+  modelPreferences?: Record<string, unknown>;
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  metadata?: Record<string, unknown>;
+}
+
+export interface McpCreateMessageResult {
+  role: 'user' | 'assistant';
+  content: McpContent;
+  model: string;
+  stopReason?: string;
+}
+
+/**
+ * MCP as a `StdioClient` protocol map
+ */
+export type McpProtocol = {
+  requests: {
+    initialize: { params: McpInitializeParams; result: McpInitializeResult };
+    ping: { params?: McpRequestMeta; result: Record<string, never> };
+    'tools/list': { params?: McpPaginatedParams; result: McpListToolsResult };
+    'tools/call': { params: McpCallToolParams; result: McpCallToolResult };
+    'resources/list': { params?: McpPaginatedParams; result: McpListResourcesResult };
+    'resources/templates/list': {
+      params?: McpPaginatedParams;
+      result: McpListResourceTemplatesResult;
+    };
+    'resources/read': {
+      params: McpRequestMeta & { uri: string };
+      result: McpReadResourceResult;
+    };
+    'resources/subscribe': {
+      params: McpRequestMeta & { uri: string };
+      result: Record<string, never>;
+    };
+    'resources/unsubscribe': {
+      params: McpRequestMeta & { uri: string };
+      result: Record<string, never>;
+    };
+    'prompts/list': { params?: McpPaginatedParams; result: McpListPromptsResult };
+    'prompts/get': { params: McpGetPromptParams; result: McpGetPromptResult };
+    'logging/setLevel': {
+      params: McpRequestMeta & { level: McpLoggingLevel };
+      result: Record<string, never>;
+    };
+  };
+  notifications: {
+    'notifications/initialized': { params?: Record<string, never> };
+    'notifications/cancelled': { params: McpCancelledParams };
+    'notifications/progress': { params: McpProgressParams };
+    'notifications/roots/list_changed': { params?: Record<string, never> };
+  };
+  serverRequests: {
+    ping: { params?: McpRequestMeta; result: Record<string, never> };
+    'roots/list': { params?: McpRequestMeta; result: { roots: McpRoot[] } };
+    'sampling/createMessage': { params: McpCreateMessageParams; result: McpCreateMessageResult };
+  };
+  serverNotifications: {
+    'notifications/message': { params: McpLoggingMessageParams };
+    'notifications/progress': { params: McpProgressParams };
+    'notifications/cancelled': { params: McpCancelledParams };
+    'notifications/resources/updated': { params: { uri: string } };
+    'notifications/resources/list_changed': { params?: Record<string, never> };
+    'notifications/tools/list_changed': { params?: Record<string, never> };
+    'notifications/prompts/list_changed': { params?: Record<string, never> };
+  };
+};
+
+/**
+ * Configuration for `McpStdioClient`
+ */
+export interface McpStdioClientConfig
+  extends Omit<StdioClientConfig<McpProtocol>, 'restart' | 'progress'> {
+  /**
+   * Name and version sent to the server during `initialize`
+   */
+  clientInfo: McpImplementation;
+
+  /**
+   * Capabilities advertised to the server
+   * @default {}
+   */
+  capabilities?: McpClientCapabilities;
+
+  /**
+   * Protocol version requested during `initialize`. The server may answer with another
+   * version; `connect()` fails if that version is not one this client supports.
+   * @default '2025-03-26'
+   */
+  protocolVersion?: string;
+
+  /**
+   * Respawn the server when it exits unexpectedly. The handshake, resource subscriptions
+   * and logging level are restored before `onRestart` runs.
+   * @default false
+   */
+  restart?: McpRestartPolicy | boolean;
+}
+
+/**
+ * Restart policy for `McpStdioClient`; `onRestart` receives the MCP client
+ */
+export interface McpRestartPolicy extends Omit<RestartPolicy<McpProtocol>, 'onRestart'> {
+  onRestart?: (client: McpStdioClient) => Promise<void> | void;
+}
+
+/**
+ * Options for one page of a paginated list request
+ */
+export interface McpListOptions {
+  /**
+   * `nextCursor` from the previous page; omit for the first page
+   */
+  cursor?: string | undefined;
+
+  /**
+   * Abort the request
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout in milliseconds, overriding `requestTimeout`
+   */
+  timeout?: number;
+}
+
+/**
+ * A progress update for a request, without its `progressToken`
+ */
+export type McpProgress = Omit<McpProgressParams, 'progressToken'>;
+
+/**
+ * Per-call options for `McpStdioClient` methods
+ */
+export interface McpRequestOptions extends Omit<RequestOptions, 'onProgress'> {
+  /**
+   * Receive `notifications/progress` updates for this call
+   */
+  onProgress?: (progress: McpProgress) => void;
+}
+
+/**
+ * Event map for `McpStdioClient`
+ */
+export type McpStdioClientEvents = {
+  /**
+   * The server's tool list changed; call `listTools()` again
+   */
+  toolsChanged: [];
+  /**
+   * The server's resource list changed; call `listResources()` again
+   */
+  resourcesChanged: [];
+  /**
+   * The server's prompt list changed; call `listPrompts()` again
+   */
+  promptsChanged: [];
+  /**
+   * A subscribed resource changed; call `readResource(uri)` again
+   */
+  resourceUpdated: [uri: string];
+  /**
+   * A log message sent by the server with `notifications/message`
+   */
+  logMessage: [message: McpLoggingMessageParams];
+  notification: [method: string, params: unknown];
+  log: [message: string, info: LogInfo];
+  error: [error: Error];
+  protocolError: [error: ProtocolError];
+  exit: [details: ProcessExitDetails];
+  connected: [];
+  disconnected: [];
+  restarting: [info: RestartingInfo];
+  restarted: [info: { attempt: number }];
+  gaveUp: [error: Error];
+};
@@ -0,0 +1,468 @@
+import { EventEmitter } from 'node:events';
+import { StdioClient } from './client.js';
+import { ValidationError } from './errors.js';
+import type {
+  McpCallToolResult,
+  McpClientCapabilities,
+  McpGetPromptResult,
+  McpImplementation,
+  McpInitializeResult,
+  McpListOptions,
+  McpListPromptsResult,
+  McpListResourceTemplatesResult,
+  McpListResourcesResult,
+  McpListToolsResult,
+  McpLoggingLevel,
+  McpLoggingMessageParams,
+  McpPaginatedResult,
+  McpPrompt,
+  McpProtocol,
+  McpReadResourceResult,
+  McpRequestOptions,
+  McpResource,
+  McpResourceTemplate,
+  McpServerCapabilities,
+  McpStdioClientConfig,
+  McpStdioClientEvents,
+  McpTool,
+} from './mcp-types.js';
+import type { ProcessExitInfo, RequestOptions } from './types.js';
+
+/**
+ * MCP protocol versions this client can speak, newest first
+ * @private
+ */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Fetch every page of a paginated list request
+ * @private
+ */
+async function collectPages<TPage extends McpPaginatedResult, TItem>(
+  fetchPage: (cursor: string | undefined) => Promise<TPage>,
+  items: (page: TPage) => TItem[]
+): Promise<TItem[]> {
+  const collected: TItem[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchPage(cursor);
+    collected.push(...items(page));
+    cursor = page.nextCursor;
+    if (cursor !== undefined) {
+      if (seen.has(cursor)) {
+        throw new Error(`Server repeated pagination cursor: ${cursor}`);
+      }
+      seen.add(cursor);
+    }
+  } while (cursor !== undefined);
+
+  return collected;
+}
+
+/**
+ * Model Context Protocol client for servers running as child processes
+ *
+ * Wraps a `StdioClient<McpProtocol>`: `connect()` spawns the server and performs the
+ * `initialize` handshake, list methods follow pagination cursors, and `list_changed`,
+ * `resources/updated` and `notifications/message` notifications become typed events.
+ *
+ * @example
+ * ```typescript
+ * import { McpStdioClient } from 'node-stdio-jsonrpc/mcp';
+ *
+ * const mcp = new McpStdioClient({
+ *   command: 'npx',
+ *   args: ['-y', '@modelcontextprotocol/server-filesystem', '/tmp'],
+ *   clientInfo: { name: 'my-app', version: '1.0.0' },
+ * });
+ *
+ * const { serverInfo } = await mcp.connect();
+ * const tools = await mcp.listAllTools();
+ * const result = await mcp.callTool('read_file', { path: '/tmp/notes.txt' });
+ *
+ * mcp.on('toolsChanged', async () => {
+ *   console.log('Tools now:', await mcp.listAllTools());
+ * });
+ *
+ * await mcp.disconnect();
+ * ```
+ */
+export class McpStdioClient extends EventEmitter<McpStdioClientEvents> {
+  /**
+   * The underlying JSON-RPC client, for MCP methods this class does not wrap
+   */
+  readonly client: StdioClient<McpProtocol>;
+
+  private clientInfo: McpImplementation;
+  private capabilities: McpClientCapabilities;
+  private protocolVersion: string;
+  private initializeResult: McpInitializeResult | undefined;
+  private subscriptions = new Set<string>();
+  private loggingLevel: McpLoggingLevel | undefined;
+
+  constructor(config: McpStdioClientConfig) {
+    super();
+
+    const { clientInfo, capabilities, protocolVersion, restart, ...clientConfig } = config;
+    this.clientInfo = clientInfo;
+    this.capabilities = capabilities ?? {};
+    this.protocolVersion = protocolVersion ?? SUPPORTED_PROTOCOL_VERSIONS[0]!;
+
+    const restartPolicy = restart === true ? {} : restart || null;
+    this.client = new StdioClient<McpProtocol>({
+      cancellation: 'mcp',
+      ...clientConfig,
+      progress: 'mcp',
+      restart: restartPolicy
+        ? {
+            ...restartPolicy,
+            onRestart: async () => {
+              await this.initialize();
+              await this.restoreSession();
+              await restartPolicy.onRestart?.(this);
+            },
+          }
+        : false,
+    });
+
+    // Servers may ping the client at any time
+    this.client.onRequest('ping', () => ({}));
+
+    this.client.on('notification', (method: string, params: unknown) => {
+      this.handleNotification(method, params);
+    });
+    this.client.on('log', (message, info) => this.emit('log', message, info));
+    this.client.on('error', (error) => this.emit('error', error));
+    this.client.on('protocolError', (error) => this.emit('protocolError', error));
+    this.client.on('exit', (details) => this.emit('exit', details));
+    this.client.on('connected', () => this.emit('connected'));
+    this.client.on('disconnected', () => this.emit('disconnected'));
+    this.client.on('restarting', (info) => this.emit('restarting', info));
+    this.client.on('restarted', (info) => this.emit('restarted', info));
+    this.client.on('gaveUp', (error) => this.emit('gaveUp', error));
+  }
+
+  /**
+   * Spawn the server and perform the `initialize` handshake
+   *
+   * @returns The server's `initialize` result
+   * @throws {Error} If the server answers with a protocol version this client does not support
+   */
+  async connect(): Promise<McpInitializeResult> {
+    await this.client.connect();
+    try {
+      return await this.initialize();
+    } catch (error) {
+      await this.client.disconnect();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the server process
+   *
+   * @returns How the process exited, or undefined if there was no process
+   */
+  async disconnect(): Promise<ProcessExitInfo | undefined> {
+    this.initializeResult = undefined;
+    this.subscriptions.clear();
+    this.loggingLevel = undefined;
+    return this.client.disconnect();
+  }
+
+  /**
+   * Check if connected to the server
+   */
+  isConnected(): boolean {
+    return this.client.isConnected();
+  }
+
+  /**
+   * Name and version the server reported during `initialize`
+   */
+  getServerInfo(): McpImplementation | undefined {
+    return this.initializeResult?.serverInfo;
+  }
+
+  /**
+   * Capabilities the server reported during `initialize`
+   */
+  getServerCapabilities(): McpServerCapabilities | undefined {
+    return this.initializeResult?.capabilities;
+  }
+
+  /**
+   * Usage instructions the server sent during `initialize`, if any
+   */
+  getInstructions(): string | undefined {
+    return this.initializeResult?.instructions;
+  }
+
+  /**
+   * Check that the server is alive
+   */
+  async ping(options: RequestOptions = {}): Promise<void> {
+    await this.client.request('ping', {}, options);
+  }
+
+  /**
+   * Fetch one page of tools
+   */
+  async listTools(options: McpListOptions = {}): Promise<McpListToolsResult> {
+    this.requireCapability('tools');
+    const { cursor, ...requestOptions } = options;
+    return this.client.request(
+      'tools/list',
+      cursor === undefined ? {} : { cursor },
+      requestOptions
+    );
+  }
+
+  /**
+   * Fetch all tools, following pagination cursors
+   */
+  listAllTools(options: Omit<McpListOptions, 'cursor'> = {}): Promise<McpTool[]> {
+    return collectPages(
+      (cursor) => this.listTools({ ...options, cursor }),
+      (page) => page.tools
+    );
+  }
+
+  /**
+   * Call a tool
+   *
+   * Tool failures are reported in the result with `isError: true`, not as rejections.
+   *
+   * @example
+   * ```typescript
+   * const result = await mcp.callTool('search', { query: 'stdio' }, {
+   *   onProgress: ({ progress, total }) => console.log(`${progress}/${total ?? '?'}`),
+   * });
+   * ```
+   */
+  async callTool(
+    name: string,
+    args?: Record<string, unknown>,
+    options: McpRequestOptions = {}
+  ): Promise<McpCallToolResult> {
+    this.requireCapability('tools');
+    return this.client.request(
+      'tools/call',
+      args === undefined ? { name } : { name, arguments: args },
+      options as RequestOptions
+    );
+  }
+
+  /**
+   * Fetch one page of resources
+   */
+  async listResources(options: McpListOptions = {}): Promise<McpListResourcesResult> {
+    this.requireCapability('resources');
+    const { cursor, ...requestOptions } = options;
+    return this.client.request(
+      'resources/list',
+      cursor === undefined ? {} : { cursor },
+      requestOptions
+    );
+  }
+
+  /**
+   * Fetch all resources, following pagination cursors
+   */
+  listAllResources(options: Omit<McpListOptions, 'cursor'> = {}): Promise<McpResource[]> {
+    return collectPages(
+      (cursor) => this.listResources({ ...options, cursor }),
+      (page) => page.resources
+    );
+  }
+
+  /**
+   * Fetch one page of resource templates
+   */
+  async listResourceTemplates(
+    options: McpListOptions = {}
+  ): Promise<McpListResourceTemplatesResult> {
+    this.requireCapability('resources');
+    const { cursor, ...requestOptions } = options;
+    return this.client.request(
+      'resources/templates/list',
+      cursor === undefined ? {} : { cursor },
+      requestOptions
+    );
+  }
+
+  /**
+   * Fetch all resource templates, following pagination cursors
+   */
+  listAllResourceTemplates(
+    options: Omit<McpListOptions, 'cursor'> = {}
+  ): Promise<McpResourceTemplate[]> {
+    return collectPages(
+      (cursor) => this.listResourceTemplates({ ...options, cursor }),
+      (page) => page.resourceTemplates
+    );
+  }
+
+  /**
+   * Read the contents of a resource
+   */
+  async readResource(uri: string, options: McpRequestOptions = {}): Promise<McpReadResourceResult> {
+    this.requireCapability('resources');
+    return this.client.request('resources/read', { uri }, options as RequestOptions);
+  }
+
+  /**
+   * Subscribe to `resourceUpdated` events for a resource
+   *
+   * Subscriptions are restored after an automatic restart.
+   */
+  async subscribe(uri: string, options: RequestOptions = {}): Promise<void> {
+    if (this.initializeResult && !this.initializeResult.capabilities.resources?.subscribe) {
+      throw new Error('Server does not support resource subscriptions');
+    }
+    await this.client.request('resources/subscribe', { uri }, options);
+    this.subscriptions.add(uri);
+  }
+
+  /**
+   * Stop receiving `resourceUpdated` events for a resource
+   */
+  async unsubscribe(uri: string, options: RequestOptions = {}): Promise<void> {
+    this.subscriptions.delete(uri);
+    await this.client.request('resources/unsubscribe', { uri }, options);
+  }
+
+  /**
+   * Fetch one page of prompts
+   */
+  async listPrompts(options: McpListOptions = {}): Promise<McpListPromptsResult> {
+    this.requireCapability('prompts');
+    const { cursor, ...requestOptions } = options;
+    return this.client.request(
+      'prompts/list',
+      cursor === undefined ? {} : { cursor },
+      requestOptions
+    );
+  }
+
+  /**
+   * Fetch all prompts, following pagination cursors
+   */
+  listAllPrompts(options: Omit<McpListOptions, 'cursor'> = {}): Promise<McpPrompt[]> {
+    return collectPages(
+      (cursor) => this.listPrompts({ ...options, cursor }),
+      (page) => page.prompts
+    );
+  }
+
+  /**
+   * Render a prompt with its arguments
+   */
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+    options: McpRequestOptions = {}
+  ): Promise<McpGetPromptResult> {
+    this.requireCapability('prompts');
+    return this.client.request(
+      'prompts/get',
+      args === undefined ? { name } : { name, arguments: args },
+      options as RequestOptions
+    );
+  }
+
+  /**
+   * Set the minimum level of `logMessage` events the server sends
+   *
+   * The level is restored after an automatic restart.
+   */
+  async setLoggingLevel(level: McpLoggingLevel, options: RequestOptions = {}): Promise<void> {
+    this.requireCapability('logging');
+    await this.client.request('logging/setLevel', { level }, options);
+    this.loggingLevel = level;
+  }
+
+  /**
+   * Send `initialize`, check the negotiated version and send `notifications/initialized`
+   * @private
+   */
+  private async initialize(): Promise<McpInitializeResult> {
+    const result = await this.client.request('initialize', {
+      protocolVersion: this.protocolVersion,
+      capabilities: this.capabilities,
+      clientInfo: this.clientInfo,
+    });
+
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      throw new Error(`Unsupported MCP protocol version from server: ${result.protocolVersion}`);
+    }
+
+    this.initializeResult = result;
+    this.client.notify('notifications/initialized');
+    return result;
+  }
+
+  /**
+   * Re-apply subscriptions and the logging level on a respawned server
+   * @private
+   */
+  private async restoreSession(): Promise<void> {
+    for (const uri of this.subscriptions) {
+      await this.client.request('resources/subscribe', { uri });
+    }
+    if (this.loggingLevel) {
+      await this.client.request('logging/setLevel', { level: this.loggingLevel });
+    }
+  }
+
+  /**
+   * Fail fast when the server did not advertise a capability
+   * @private
+   */
+  private requireCapability(capability: 'tools' | 'resources' | 'prompts' | 'logging'): void {
+    if (this.initializeResult && !this.initializeResult.capabilities[capability]) {
+      throw new Error(`Server does not support ${capability}`);
+    }
+  }
+
+  /**
+   * Turn MCP notifications into typed events, then emit them as `notification`
+   * @private
+   */
+  private handleNotification(method: string, params: unknown): void {
+    switch (method) {
+      case 'notifications/tools/list_changed':
+        this.emit('toolsChanged');
+        break;
+      case 'notifications/resources/list_changed':
+        this.emit('resourcesChanged');
+        break;
+      case 'notifications/prompts/list_changed':
+        this.emit('promptsChanged');
+        break;
+      case 'notifications/resources/updated':
+        if (isPlainObject(params) && typeof params.uri === 'string') {
+          this.emit('resourceUpdated', params.uri);
+        } else {
+          this.emit(
+            'error',
+            new ValidationError(method, 'incoming', 'params', [
+              { message: 'Expected a string uri', path: ['uri'] },
+            ])
+          );
+        }
+        break;
+      case 'notifications/message':
+        this.emit('logMessage', params as McpLoggingMessageParams);
+        break;
+    }
+
+    this.emit('notification', method, params);
+  }
+}
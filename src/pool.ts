@@ -0,0 +1,426 @@
+import { EventEmitter } from 'node:events';
+import { StdioClient } from './client.js';
+import { RestartSupervisor } from './restart.js';
+import type {
+  InferResult,
+  MethodName,
+  MethodParams,
+  MethodResult,
+  ParamsArgs,
+  PoolRequestOptions,
+  PoolStrategy,
+  PoolWorkerInfo,
+  ProcessExitDetails,
+  ProtocolMap,
+  ProtocolSection,
+  StdioClientConfig,
+  StdioClientPoolConfig,
+  StdioClientPoolEvents,
+  UntypedProtocol,
+} from './types.js';
+
+/**
+ * A pooled client and its routing state
+ * @private
+ */
+interface PoolWorker<P extends ProtocolMap> {
+  id: number;
+  client: StdioClient<P>;
+  state: PoolWorkerInfo['state'] | 'stopped';
+  pending: number;
+  idleTimer: NodeJS.Timeout | null;
+  onDrained: (() => void) | null;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ * @private
+ */
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+/**
+ * Pool of identical stdio servers behind one request API
+ *
+ * Spawns `minSize` workers from one `StdioClientConfig`, routes each request to one
+ * worker, spawns more workers up to `maxSize` while all of them are busy and stops the
+ * extra ones once idle. Workers that exit unexpectedly are replaced; requests that were
+ * in flight on them are rejected, not retried.
+ *
+ * @example
+ * ```typescript
+ * import { StdioClientPool } from 'node-stdio-jsonrpc';
+ *
+ * const pool = new StdioClientPool({
+ *   command: 'python',
+ *   args: ['worker.py'],
+ *   minSize: 2,
+ *   maxSize: 8,
+ * });
+ *
+ * await pool.connect();
+ * const results = await Promise.all(files.map((file) => pool.request('format', { file })));
+ * await pool.disconnect();
+ * ```
+ */
+export class StdioClientPool<
+  P extends ProtocolMap = UntypedProtocol,
+> extends EventEmitter<StdioClientPoolEvents> {
+  private clientConfig: StdioClientConfig<P>;
+  private minSize: number;
+  private maxSize: number;
+  private strategy: PoolStrategy;
+  private scaleUpThreshold: number;
+  private idleTimeout: number;
+  private onWorkerStart: StdioClientPoolConfig<P>['onWorkerStart'];
+  private replacements: RestartSupervisor | null;
+  private replacementTimer: NodeJS.Timeout | null = null;
+  private workers: PoolWorker<P>[] = [];
+  private nextWorkerId = 1;
+  private nextRoundRobin = 0;
+  private closing = false;
+
+  constructor(config: StdioClientPoolConfig<P>) {
+    super();
+
+    const {
+      minSize,
+      maxSize,
+      strategy,
+      scaleUpThreshold,
+      idleTimeout,
+      replaceWorkers,
+      onWorkerStart,
+      ...clientConfig
+    } = config;
+    // Untyped callers could still pass a single process or stream source for every worker
+    if ('process' in clientConfig || 'streams' in clientConfig) {
+      throw new Error(
+        'StdioClientPool workers spawn their own process; process and streams are not supported'
+      );
+    }
+
+    this.clientConfig = clientConfig;
+    this.minSize = Math.max(minSize ?? 1, 1);
+    this.maxSize = Math.max(maxSize ?? this.minSize, this.minSize);
+    this.strategy = strategy ?? 'least-pending';
+    this.scaleUpThreshold = Math.max(scaleUpThreshold ?? 1, 1);
+    this.idleTimeout = idleTimeout ?? 30000;
+    this.onWorkerStart = onWorkerStart;
+
+    const replacementPolicy = replaceWorkers ?? true;
+    this.replacements = replacementPolicy
+      ? new RestartSupervisor(replacementPolicy === true ? {} : replacementPolicy)
+      : null;
+  }
+
+  /**
+   * Spawn `minSize` workers and wait until all of them are ready
+   *
+   * @throws {Error} If a worker fails to start; workers already started are stopped
+   */
+  async connect(): Promise<void> {
+    this.closing = false;
+    this.replacements?.reset();
+
+    const missing = this.minSize - this.activeWorkers().length;
+    try {
+      await Promise.all(Array.from({ length: missing }, () => this.spawnWorker()));
+    } catch (error) {
+      await this.disconnect();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop accepting requests, let in-flight requests settle and stop every worker
+   *
+   * Each worker is stopped with the configured `shutdown` sequence once its pending
+   * requests have settled (by response, error or `requestTimeout`).
+   */
+  async disconnect(): Promise<void> {
+    this.closing = true;
+    if (this.replacementTimer) {
+      clearTimeout(this.replacementTimer);
+      this.replacementTimer = null;
+    }
+
+    await Promise.all(this.workers.map((worker) => this.drainWorker(worker)));
+  }
+
+  /**
+   * Send a request to one worker, chosen by the routing strategy
+   *
+   * @param method - The method name to call
+   * @param params - The parameters to send (optional)
+   * @param options - Per-call options of `StdioClient.request()`, plus a sticky routing `key`
+   * @throws {Error} If the pool is closed or no worker is ready
+   */
+  async request<
+    TResult = InferResult,
+    M extends MethodName<ProtocolSection<P, 'requests'>> = MethodName<
+      ProtocolSection<P, 'requests'>
+    >,
+  >(
+    method: M,
+    ...args: ParamsArgs<
+      MethodParams<ProtocolSection<P, 'requests'>, M>,
+      [options?: PoolRequestOptions]
+    >
+  ): Promise<
+    [TResult] extends [InferResult] ? MethodResult<ProtocolSection<P, 'requests'>, M> : TResult
+  > {
+    const [params, options = {}] = args as [unknown?, PoolRequestOptions?];
+    const { key, ...requestOptions } = options;
+
+    if (this.closing) {
+      throw new Error('Pool is closed');
+    }
+    const worker = this.pickWorker(key);
+    if (!worker) {
+      throw new Error('No workers available');
+    }
+
+    worker.pending++;
+    if (worker.idleTimer) {
+      clearTimeout(worker.idleTimer);
+      worker.idleTimer = null;
+    }
+    this.scaleUp();
+
+    try {
+      // Routing is untyped; the public signature already checked the call against P
+      const client: StdioClient = worker.client;
+      return (await client.request<unknown, string>(method, params, requestOptions)) as never;
+    } finally {
+      worker.pending--;
+      this.handleWorkerSettled(worker);
+    }
+  }
+
+  /**
+   * Send a notification to every ready worker
+   */
+  notify<M extends MethodName<ProtocolSection<P, 'notifications'>>>(
+    method: M,
+    ...args: ParamsArgs<MethodParams<ProtocolSection<P, 'notifications'>, M>>
+  ): void {
+    for (const worker of this.workers) {
+      if (worker.state === 'ready') {
+        worker.client.notify(method, ...args);
+      }
+    }
+  }
+
+  /**
+   * Snapshot of the current workers
+   */
+  getWorkers(): PoolWorkerInfo[] {
+    return this.workers
+      .filter((worker) => worker.state !== 'stopped')
+      .map(({ id, state, pending }) => ({ id, state, pending }) as PoolWorkerInfo);
+  }
+
+  /**
+   * Workers that are starting or ready, i.e. not on their way out
+   * @private
+   */
+  private activeWorkers(): PoolWorker<P>[] {
+    return this.workers.filter((worker) => worker.state === 'starting' || worker.state === 'ready');
+  }
+
+  /**
+   * Choose a ready worker according to the strategy
+   * @private
+   */
+  private pickWorker(key: string | undefined): PoolWorker<P> | undefined {
+    const ready = this.workers.filter((worker) => worker.state === 'ready');
+    if (ready.length === 0) return undefined;
+
+    if (this.strategy === 'round-robin') {
+      const worker = ready[this.nextRoundRobin % ready.length];
+      this.nextRoundRobin = (this.nextRoundRobin + 1) % Number.MAX_SAFE_INTEGER;
+      return worker;
+    }
+
+    if (this.strategy === 'sticky' && key !== undefined) {
+      // Rendezvous hashing: only keys of added or removed workers move
+      let best = ready[0];
+      let bestScore = -1;
+      for (const worker of ready) {
+        const score = hash(`${key}:${worker.id}`);
+        if (score > bestScore) {
+          best = worker;
+          bestScore = score;
+        }
+      }
+      return best;
+    }
+
+    return ready.reduce((best, worker) => (worker.pending < best.pending ? worker : best));
+  }
+
+  /**
+   * Spawn one more worker if every worker is saturated and the pool may grow
+   * @private
+   */
+  private scaleUp(): void {
+    const active = this.activeWorkers();
+    if (active.length >= this.maxSize) return;
+    if (active.some((worker) => worker.state === 'starting')) return;
+    if (active.some((worker) => worker.pending < this.scaleUpThreshold)) return;
+
+    this.spawnWorker().catch((error: Error) => this.emit('error', error, undefined));
+  }
+
+  /**
+   * Create, connect and initialize a worker
+   * @private
+   */
+  private async spawnWorker(): Promise<PoolWorker<P>> {
+    const client = new StdioClient<P>(this.clientConfig);
+    const worker: PoolWorker<P> = {
+      id: this.nextWorkerId++,
+      client,
+      state: 'starting',
+      pending: 0,
+      idleTimer: null,
+      onDrained: null,
+    };
+    this.workers.push(worker);
+
+    // The protocol map only narrows listener types; forward events untyped
+    const events: StdioClient = client;
+    events.on('notification', (method: string, params: unknown) => {
+      this.emit('notification', method, params, worker.id);
+    });
+    events.on('log', (message, info) => this.emit('log', message, info, worker.id));
+    events.on('error', (error) => this.emit('error', error, worker.id));
+    events.on('exit', (details) => this.handleWorkerExit(worker, details));
+
+    try {
+      await client.connect();
+      await this.onWorkerStart?.(client);
+    } catch (error) {
+      this.removeWorker(worker);
+      if (client.isConnected()) {
+        await client.disconnect();
+      }
+      throw error;
+    }
+
+    // The worker may have exited, or the pool closed, while starting
+    if (worker.state !== 'starting') {
+      return worker;
+    }
+    worker.state = 'ready';
+    this.emit('workerStart', worker.id);
+    this.handleWorkerSettled(worker);
+    return worker;
+  }
+
+  /**
+   * Finish draining, or start the idle timer of workers above `minSize`
+   * @private
+   */
+  private handleWorkerSettled(worker: PoolWorker<P>): void {
+    if (worker.pending > 0) return;
+
+    if (worker.state === 'draining') {
+      worker.onDrained?.();
+      return;
+    }
+    if (worker.state !== 'ready' || worker.idleTimer) return;
+
+    worker.idleTimer = setTimeout(() => {
+      worker.idleTimer = null;
+      if (worker.pending === 0 && this.activeWorkers().length > this.minSize) {
+        void this.drainWorker(worker);
+      }
+    }, this.idleTimeout);
+    worker.idleTimer.unref();
+  }
+
+  /**
+   * Stop routing to a worker, wait for its in-flight requests and stop it
+   * @private
+   */
+  private async drainWorker(worker: PoolWorker<P>): Promise<void> {
+    if (worker.state === 'stopped') return;
+    if (worker.idleTimer) {
+      clearTimeout(worker.idleTimer);
+      worker.idleTimer = null;
+    }
+
+    worker.state = 'draining';
+    if (worker.pending > 0) {
+      await new Promise<void>((resolve) => {
+        worker.onDrained = resolve;
+      });
+    }
+
+    await worker.client.disconnect();
+    this.removeWorker(worker);
+  }
+
+  /**
+   * Forget a worker and replace it if it exited on its own
+   * @private
+   */
+  private handleWorkerExit(worker: PoolWorker<P>, details: ProcessExitDetails): void {
+    const crashed = worker.state === 'ready';
+    this.removeWorker(worker);
+    this.emit('workerExit', worker.id, details);
+
+    if (crashed) {
+      this.replaceWorker();
+    }
+  }
+
+  /**
+   * Spawn a replacement after the backoff delay while the pool is below `minSize`
+   * @private
+   */
+  private replaceWorker(): void {
+    if (this.closing || !this.replacements || this.replacementTimer) return;
+    if (this.activeWorkers().length >= this.minSize) return;
+
+    const next = this.replacements.next();
+    if (!next) {
+      this.emit('error', new Error('Worker replacement limit reached'), undefined);
+      return;
+    }
+
+    this.replacementTimer = setTimeout(() => {
+      this.replacementTimer = null;
+      this.spawnWorker().then(
+        () => this.replaceWorker(),
+        (error: Error) => {
+          this.emit('error', error, undefined);
+          this.replaceWorker();
+        }
+      );
+    }, next.delay);
+  }
+
+  /**
+   * @private
+   */
+  private removeWorker(worker: PoolWorker<P>): void {
+    worker.state = 'stopped';
+    if (worker.idleTimer) {
+      clearTimeout(worker.idleTimer);
+      worker.idleTimer = null;
+    }
+    this.workers = this.workers.filter((candidate) => candidate !== worker);
+    // A worker that dies while draining has nothing left to wait for
+    worker.onDrained?.();
+    worker.onDrained = null;
+  }
+}
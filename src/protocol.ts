@@ -0,0 +1,128 @@
+/**
+ * JSON-RPC 2.0 wire-level helpers shared by the client and transport layers
+ * @internal
+ */
+
+/**
+ * Request identifier as defined by JSON-RPC 2.0
+ */
+export type JSONRPCId = string | number;
+
+/**
+ * Standard JSON-RPC 2.0 error codes
+ */
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+} as const;
+
+/**
+ * Error object carried by an error response
+ */
+export interface WireError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * Any message that can appear on the wire
+ */
+export interface WireMessage {
+  jsonrpc: '2.0';
+  id?: JSONRPCId | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: WireError;
+}
+
+/**
+ * Message with a method and an id (expects a response)
+ */
+export interface WireRequest extends WireMessage {
+  id: JSONRPCId;
+  method: string;
+}
+
+/**
+ * Message with a method and no id (fire-and-forget)
+ */
+export interface WireNotification extends WireMessage {
+  method: string;
+}
+
+/**
+ * Message without a method answering an earlier request
+ */
+export interface WireResponse extends WireMessage {
+  id: JSONRPCId | null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isId(value: unknown): value is JSONRPCId {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+export function isRequest(message: unknown): message is WireRequest {
+  return isObject(message) && typeof message.method === 'string' && isId(message.id);
+}
+
+export function isNotification(message: unknown): message is WireNotification {
+  return isObject(message) && typeof message.method === 'string' && message.id === undefined;
+}
+
+export function isResponse(message: unknown): message is WireResponse {
+  return (
+    isObject(message) &&
+    message.method === undefined &&
+    (isId(message.id) || message.id === null) &&
+    ('result' in message || isObject(message.error))
+  );
+}
+
+/**
+ * Build a request, leaving out `params` when undefined
+ */
+export function createRequest(id: JSONRPCId, method: string, params?: unknown): WireRequest {
+  return params === undefined
+    ? { jsonrpc: '2.0', id, method }
+    : { jsonrpc: '2.0', id, method, params };
+}
+
+/**
+ * Build a notification, leaving out `params` when undefined
+ */
+export function createNotification(method: string, params?: unknown): WireNotification {
+  return params === undefined ? { jsonrpc: '2.0', method } : { jsonrpc: '2.0', method, params };
+}
+
+/**
+ * Convert anything thrown by a handler into a JSON-RPC error object
+ *
+ * Errors that already carry a numeric `code` (such as `JSONRPCError`) keep their
+ * code, message and data; everything else becomes an Internal error.
+ */
+export function toWireError(error: unknown): WireError {
+  if (isObject(error) && typeof error.code === 'number') {
+    const wireError: WireError = {
+      code: error.code,
+      message: typeof error.message === 'string' ? error.message : 'Unknown error',
+    };
+    if (error.data !== undefined) {
+      wireError.data = error.data;
+    }
+    return wireError;
+  }
+
+  return {
+    code: ErrorCodes.InternalError,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
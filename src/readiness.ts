@@ -0,0 +1,180 @@
+import type { ChildProcess } from 'node:child_process';
+import type { ReadinessStrategy } from './types.js';
+
+const PROBE_ID_PREFIX = '__stdio_readiness_probe_';
+const MAX_PATTERN_BUFFER = 64 * 1024;
+
+/**
+ * Hooks the transport exposes to readiness strategies while connecting
+ * @internal
+ */
+export interface ReadinessContext {
+  child: ChildProcess;
+
+  /**
+   * Write a message to stdin, bypassing the connected check
+   */
+  write(message: string): void;
+
+  /**
+   * Observe framed stdout messages; return true from the interceptor to swallow a message
+   * @returns A function that removes the interceptor
+   */
+  intercept(interceptor: (message: string) => boolean): () => void;
+
+  log(...args: unknown[]): void;
+}
+
+/**
+ * Start watching for the child to become ready
+ *
+ * @param ready - Called once when the strategy is satisfied
+ * @returns A function that stops watching (listeners and timers)
+ * @internal
+ */
+export function waitForReadiness(
+  strategy: ReadinessStrategy,
+  context: ReadinessContext,
+  ready: () => void
+): () => void {
+  if (strategy === 'spawn') {
+    return waitForSpawn(context, ready);
+  }
+  if ('pattern' in strategy) {
+    return waitForPattern(strategy.pattern, strategy.stream ?? 'stderr', context, ready);
+  }
+  if ('notification' in strategy) {
+    return waitForNotification(strategy.notification, context, ready);
+  }
+  return waitForProbe(strategy.probe, strategy.params, strategy.interval ?? 100, context, ready);
+}
+
+function waitForSpawn(context: ReadinessContext, ready: () => void): () => void {
+  // A pid means the spawn succeeded; an adopted process may have emitted `spawn` long ago
+  if (context.child.pid !== undefined) {
+    const immediate = setImmediate(ready);
+    return () => clearImmediate(immediate);
+  }
+
+  const onSpawn = () => ready();
+  context.child.once('spawn', onSpawn);
+  return () => {
+    context.child.off('spawn', onSpawn);
+  };
+}
+
+function waitForPattern(
+  pattern: RegExp,
+  streamName: 'stdout' | 'stderr',
+  context: ReadinessContext,
+  ready: () => void
+): () => void {
+  const stream = context.child[streamName];
+  // Stateful flags would make repeated test() calls skip matches
+  const matcher = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+  let seen = '';
+
+  const onData = (data: Buffer) => {
+    // Keep a bounded tail so a marker split across chunks still matches
+    seen = (seen + data.toString()).slice(-MAX_PATTERN_BUFFER);
+    if (matcher.test(seen)) {
+      context.log('Readiness pattern matched on', streamName);
+      ready();
+    }
+  };
+
+  stream?.on('data', onData);
+  return () => {
+    stream?.off('data', onData);
+  };
+}
+
+function waitForNotification(
+  method: string,
+  context: ReadinessContext,
+  ready: () => void
+): () => void {
+  return context.intercept((message) => {
+    if (parseMethod(message) === method) {
+      context.log('Received readiness notification:', method);
+      ready();
+    }
+    // Let the notification through so listeners still see it
+    return false;
+  });
+}
+
+function waitForProbe(
+  method: string,
+  params: unknown,
+  interval: number,
+  context: ReadinessContext,
+  ready: () => void
+): () => void {
+  let attempt = 0;
+  let retryTimer: NodeJS.Timeout | undefined;
+  let stopped = false;
+  // Probes sent but not answered yet; their late responses are swallowed even after stopping
+  const pending = new Set<string>();
+
+  // Re-sent every interval until one succeeds, whether the last probe failed or got no answer
+  const sendProbe = () => {
+    const id = `${PROBE_ID_PREFIX}${++attempt}`;
+    const request =
+      params === undefined
+        ? { jsonrpc: '2.0', id, method }
+        : { jsonrpc: '2.0', id, method, params };
+    context.log('Sending readiness probe:', method, '(attempt', attempt, ')');
+    pending.add(id);
+    context.write(JSON.stringify(request));
+    retryTimer = setTimeout(sendProbe, interval);
+  };
+
+  const removeInterceptor = context.intercept((message) => {
+    if (!message.includes(PROBE_ID_PREFIX)) return false;
+
+    let parsed: { id?: unknown; error?: unknown };
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      return false;
+    }
+    if (typeof parsed.id !== 'string' || !pending.delete(parsed.id)) return false;
+
+    if (stopped) {
+      if (pending.size === 0) stopIntercepting();
+    } else if (parsed.error === undefined) {
+      // A late success for an earlier attempt shows readiness just as well
+      clearTimeout(retryTimer);
+      ready();
+    }
+    return true;
+  });
+
+  const stopIntercepting = () => {
+    context.child.off('exit', stopIntercepting);
+    removeInterceptor();
+  };
+
+  sendProbe();
+
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    clearTimeout(retryTimer);
+    if (pending.size === 0) {
+      removeInterceptor();
+    } else {
+      context.child.once('exit', stopIntercepting);
+    }
+  };
+}
+
+function parseMethod(message: string): string | undefined {
+  try {
+    const parsed = JSON.parse(message) as { id?: unknown; method?: unknown };
+    return parsed.id === undefined && typeof parsed.method === 'string' ? parsed.method : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,69 @@
+import type { RestartPolicy } from './types.js';
+
+/**
+ * A scheduled restart attempt
+ * @internal
+ */
+export interface RestartAttempt {
+  attempt: number;
+  delay: number;
+}
+
+/**
+ * Tracks restarts within a sliding window and computes exponential backoff with jitter
+ * @internal
+ */
+export class RestartSupervisor {
+  private readonly maxRestarts: number;
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+  private readonly factor: number;
+  private readonly jitter: number;
+  private readonly window: number;
+  private readonly exitCodes: Array<number | NodeJS.Signals> | undefined;
+  private restartTimes: number[] = [];
+
+  constructor(policy: Omit<RestartPolicy, 'onRestart'>) {
+    this.maxRestarts = policy.maxRestarts ?? 5;
+    this.initialDelay = policy.initialDelay ?? 500;
+    this.maxDelay = policy.maxDelay ?? 30000;
+    this.factor = policy.factor ?? 2;
+    this.jitter = Math.min(Math.max(policy.jitter ?? 0.2, 0), 1);
+    this.window = policy.window ?? 60000;
+    this.exitCodes = policy.exitCodes;
+  }
+
+  /**
+   * Whether an exit with this code, or a kill by this signal, qualifies for a restart
+   */
+  shouldRestart(code: number | null, signal: NodeJS.Signals | null = null): boolean {
+    if (!this.exitCodes) return true;
+    const reason = code ?? signal;
+    return reason !== null && this.exitCodes.includes(reason);
+  }
+
+  /**
+   * Record a restart and return its backoff, or null once the budget for the window is spent
+   */
+  next(now = Date.now()): RestartAttempt | null {
+    this.restartTimes = this.restartTimes.filter((time) => now - time < this.window);
+    if (this.restartTimes.length >= this.maxRestarts) {
+      return null;
+    }
+
+    this.restartTimes.push(now);
+    const attempt = this.restartTimes.length;
+    const base = Math.min(this.initialDelay * this.factor ** (attempt - 1), this.maxDelay);
+    const spread = base * this.jitter;
+    const delay = Math.round(base - spread + Math.random() * spread * 2);
+
+    return { attempt, delay: Math.max(0, delay) };
+  }
+
+  /**
+   * Forget previous restarts (e.g. after an explicit reconnect)
+   */
+  reset(): void {
+    this.restartTimes = [];
+  }
+}
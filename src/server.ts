@@ -0,0 +1,507 @@
+import { Console } from 'node:console';
+import { EventEmitter } from 'node:events';
+import { JSONRPCError } from '@gnana997/node-jsonrpc';
+import { ProtocolError, RequestCancelledError } from './errors.js';
+import { type MessageReader, createMessageReader, encodeMessage } from './framing.js';
+import {
+  ErrorCodes,
+  type JSONRPCId,
+  type WireMessage,
+  type WireRequest,
+  type WireResponse,
+  createNotification,
+  createRequest,
+  isNotification,
+  isRequest,
+  isResponse,
+  toWireError,
+} from './protocol.js';
+import type {
+  InferResult,
+  MethodName,
+  MethodParams,
+  MethodResult,
+  NotificationHandler,
+  ParamsArgs,
+  ProtocolMap,
+  ProtocolSection,
+  RequestHandler,
+  RequestOptions,
+  StdioServerConfig,
+  StdioServerEvents,
+  UntypedProtocol,
+} from './types.js';
+
+/**
+ * Console methods that write to stdout
+ * @private
+ */
+const STDOUT_CONSOLE_METHODS = ['log', 'info', 'debug', 'dir', 'table'] as const;
+
+/**
+ * Bookkeeping for a request sent to the parent
+ * @private
+ */
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  cleanup?: () => void;
+}
+
+/**
+ * JSON-RPC 2.0 server over this process's stdin/stdout
+ *
+ * The counterpart of `StdioClient` for the child side: reads framed messages from
+ * stdin, dispatches them to registered handlers and writes responses to stdout. It can
+ * also send notifications and requests back to the parent.
+ *
+ * The protocol map is the one the parent's `StdioClient<P>` uses: the server handles
+ * `requests` and `notifications`, and sends `serverRequests` and `serverNotifications`.
+ *
+ * @example
+ * ```typescript
+ * import { StdioServer } from 'node-stdio-jsonrpc/server';
+ *
+ * const server = new StdioServer();
+ *
+ * server.onRequest('add', (params) => {
+ *   const { a, b } = params as { a: number; b: number };
+ *   return { sum: a + b };
+ * });
+ * server.onNotification('log', (params) => console.error(params));
+ *
+ * server.listen();
+ * server.notify('ready');
+ * ```
+ */
+export class StdioServer<
+  P extends ProtocolMap = UntypedProtocol,
+> extends EventEmitter<StdioServerEvents> {
+  private config: Required<StdioServerConfig>;
+  private reader: MessageReader;
+  private listening = false;
+  private nextRequestId = 1;
+  private pendingRequests = new Map<JSONRPCId, PendingRequest>();
+  private requestHandlers = new Map<string, RequestHandler>();
+  private notificationHandlers = new Map<string, NotificationHandler>();
+  private restoreConsole: (() => void) | null = null;
+
+  constructor(config: StdioServerConfig = {}) {
+    super();
+
+    this.config = {
+      input: config.input ?? process.stdin,
+      output: config.output ?? process.stdout,
+      framing: config.framing ?? 'newline',
+      redirectConsole: config.redirectConsole ?? true,
+      requestTimeout: config.requestTimeout ?? 30000,
+      maxMessageBytes: config.maxMessageBytes ?? 64 * 1024 * 1024,
+      debug: config.debug ?? false,
+    };
+
+    this.reader = createMessageReader(this.config.framing, {
+      maxMessageBytes: this.config.maxMessageBytes,
+      onOversize: (bytes, head) => {
+        this.emit(
+          'error',
+          new ProtocolError(
+            'oversize',
+            `Message of ${bytes} bytes exceeds maxMessageBytes (${this.config.maxMessageBytes})`,
+            head.subarray(0, 200).toString('utf8'),
+            bytes
+          )
+        );
+      },
+    });
+  }
+
+  /**
+   * Start reading messages from the input stream
+   *
+   * @throws {Error} If already listening
+   */
+  listen(): void {
+    if (this.listening) {
+      throw new Error('Already listening');
+    }
+    this.listening = true;
+
+    if (this.config.redirectConsole) {
+      this.redirectConsole();
+    }
+
+    const { input } = this.config;
+    input.on('data', this.handleData);
+    input.once('end', this.handleEnd);
+    input.resume();
+    this.log('Listening');
+  }
+
+  /**
+   * Stop reading, restore the console and reject requests still waiting for the parent
+   */
+  close(): void {
+    if (!this.listening) return;
+    this.listening = false;
+
+    const { input } = this.config;
+    input.off('data', this.handleData);
+    input.off('end', this.handleEnd);
+    input.pause();
+    this.reader.reset();
+
+    this.restoreConsole?.();
+    this.restoreConsole = null;
+
+    for (const id of [...this.pendingRequests.keys()]) {
+      const pending = this.takePendingRequest(id);
+      pending?.reject(new Error(`Server closed before response to ${pending.method}`));
+    }
+
+    this.log('Closed');
+    this.emit('close');
+  }
+
+  /**
+   * Check if the server is reading messages
+   */
+  isListening(): boolean {
+    return this.listening;
+  }
+
+  /**
+   * Register a handler for requests from the parent
+   *
+   * Requests for methods without a handler are answered with `-32601 Method not found`.
+   * The handler's return value is sent as the result; a thrown error with a numeric
+   * `code` (such as `JSONRPCError`) is sent as is, anything else as `-32603`.
+   *
+   * @param method - The method name the parent calls
+   * @param handler - Sync or async function producing the result
+   * @returns A function that unregisters the handler
+   */
+  onRequest<M extends MethodName<ProtocolSection<P, 'requests'>>>(
+    method: M,
+    handler: RequestHandler<
+      MethodParams<ProtocolSection<P, 'requests'>, M>,
+      MethodResult<ProtocolSection<P, 'requests'>, M>
+    >
+  ): () => void {
+    this.requestHandlers.set(method, handler as RequestHandler);
+    return () => {
+      if (this.requestHandlers.get(method) === handler) {
+        this.requestHandlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * Register a handler for notifications from the parent
+   *
+   * Every notification is also emitted as a `notification` event. Errors thrown by the
+   * handler are emitted as `error` events.
+   *
+   * @param method - The notification method name
+   * @param handler - Sync or async function receiving the params
+   * @returns A function that unregisters the handler
+   */
+  onNotification<M extends MethodName<ProtocolSection<P, 'notifications'>>>(
+    method: M,
+    handler: NotificationHandler<MethodParams<ProtocolSection<P, 'notifications'>, M>>
+  ): () => void {
+    this.notificationHandlers.set(method, handler as NotificationHandler);
+    return () => {
+      if (this.notificationHandlers.get(method) === handler) {
+        this.notificationHandlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * Send a notification to the parent
+   *
+   * @param method - The notification method name
+   * @param params - The parameters to send (optional)
+   */
+  notify<M extends MethodName<ProtocolSection<P, 'serverNotifications'>>>(
+    method: M,
+    ...args: ParamsArgs<MethodParams<ProtocolSection<P, 'serverNotifications'>, M>>
+  ): void {
+    this.send(createNotification(method, args[0]));
+  }
+
+  /**
+   * Send a request to the parent and wait for the response
+   *
+   * The parent answers through `StdioClient.onRequest()`.
+   *
+   * @param method - The method name to call
+   * @param params - The parameters to send (optional)
+   * @param options - Per-call signal and timeout (optional)
+   * @returns The result from the parent
+   * @throws {JSONRPCError} If the parent returns an error
+   * @throws {RequestCancelledError} If the request is aborted through `options.signal`
+   * @throws {Error} If the request times out or the server is not listening
+   */
+  request<
+    TResult = InferResult,
+    M extends MethodName<ProtocolSection<P, 'serverRequests'>> = MethodName<
+      ProtocolSection<P, 'serverRequests'>
+    >,
+  >(
+    method: M,
+    ...args: ParamsArgs<
+      MethodParams<ProtocolSection<P, 'serverRequests'>, M>,
+      [options?: Pick<RequestOptions, 'signal' | 'timeout'>]
+    >
+  ): Promise<
+    [TResult] extends [InferResult]
+      ? MethodResult<ProtocolSection<P, 'serverRequests'>, M>
+      : TResult
+  > {
+    const [params, options = {}] = args as [unknown?, Pick<RequestOptions, 'signal' | 'timeout'>?];
+    const { signal } = options;
+    const timeout = options.timeout ?? this.config.requestTimeout;
+
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError(method, undefined, signal.reason));
+    }
+    if (!this.listening) {
+      return Promise.reject(new Error('Not listening'));
+    }
+
+    const id = this.nextRequestId++;
+    const response = new Promise<unknown>((resolve, reject) => {
+      const pending: PendingRequest = {
+        method,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.takePendingRequest(id);
+          reject(new Error(`Request timeout after ${timeout}ms: ${method}`));
+        }, timeout),
+      };
+
+      if (signal) {
+        const onAbort = () => {
+          if (!this.takePendingRequest(id)) return;
+          reject(new RequestCancelledError(method, id, signal.reason));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        pending.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.pendingRequests.set(id, pending);
+    });
+
+    this.send(createRequest(id, method, params));
+    return response as never;
+  }
+
+  /**
+   * Decode incoming chunks into messages
+   * @private
+   */
+  private handleData = (chunk: Buffer | string): void => {
+    let messages: string[];
+    try {
+      messages = this.reader.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    } catch (error) {
+      this.reader.reset();
+      this.emit('error', error as Error);
+      return;
+    }
+
+    for (const message of messages) {
+      void this.handleMessage(message);
+    }
+  };
+
+  /**
+   * The parent closed our stdin
+   * @private
+   */
+  private handleEnd = (): void => {
+    this.log('Input ended');
+    this.close();
+  };
+
+  /**
+   * Parse a frame and send the response(s), if any
+   * @private
+   */
+  private async handleMessage(raw: string): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.send(errorResponse(null, ErrorCodes.ParseError, 'Parse error'));
+      return;
+    }
+
+    if (!Array.isArray(message)) {
+      const response = await this.dispatchMessage(message);
+      if (response) this.send(response);
+      return;
+    }
+
+    // An empty array is an invalid batch per the spec
+    if (message.length === 0) {
+      this.send(errorResponse(null, ErrorCodes.InvalidRequest, 'Invalid Request'));
+      return;
+    }
+    const responses = await Promise.all(message.map((entry) => this.dispatchMessage(entry)));
+    const answered = responses.filter((response) => response !== undefined);
+    if (answered.length > 0) {
+      this.send(answered);
+    }
+  }
+
+  /**
+   * Route a single message; resolves to the response to send, if any
+   * @private
+   */
+  private async dispatchMessage(message: unknown): Promise<WireResponse | undefined> {
+    if (isRequest(message)) {
+      return this.handleRequest(message);
+    }
+    if (isNotification(message)) {
+      this.handleNotification(message.method, message.params);
+      return undefined;
+    }
+    if (isResponse(message)) {
+      this.handleResponse(message);
+      return undefined;
+    }
+    return errorResponse(null, ErrorCodes.InvalidRequest, 'Invalid Request');
+  }
+
+  /**
+   * Run the handler for a request and build its response
+   * @private
+   */
+  private async handleRequest(request: WireRequest): Promise<WireResponse> {
+    const { id, method, params } = request;
+    const handler = this.requestHandlers.get(method);
+
+    if (!handler) {
+      this.log('No handler for request:', method);
+      return errorResponse(id, ErrorCodes.MethodNotFound, 'Method not found', { method });
+    }
+
+    try {
+      const result = await handler(params, { id, method });
+      return { jsonrpc: '2.0', id, result: result === undefined ? null : result };
+    } catch (error) {
+      this.log('Handler for', method, 'failed:', (error as Error)?.message ?? error);
+      return { jsonrpc: '2.0', id, error: toWireError(error) };
+    }
+  }
+
+  /**
+   * Emit a notification and run its handler
+   * @private
+   */
+  private handleNotification(method: string, params: unknown): void {
+    this.emit('notification', method, params);
+
+    const handler = this.notificationHandlers.get(method);
+    if (!handler) return;
+    try {
+      Promise.resolve(handler(params)).catch((error: Error) => this.emit('error', error));
+    } catch (error) {
+      this.emit('error', error as Error);
+    }
+  }
+
+  /**
+   * Settle the request to the parent matching a response
+   * @private
+   */
+  private handleResponse(response: WireResponse): void {
+    const pending = response.id === null ? undefined : this.takePendingRequest(response.id);
+    if (!pending) {
+      this.log('Ignoring response for unknown request id:', response.id);
+      return;
+    }
+
+    if (response.error) {
+      const { code, message, data } = response.error;
+      pending.reject(new JSONRPCError(code, message, data));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  /**
+   * Remove a pending request and release its timer and abort listener
+   * @private
+   */
+  private takePendingRequest(id: JSONRPCId): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return undefined;
+
+    this.pendingRequests.delete(id);
+    clearTimeout(pending.timer);
+    pending.cleanup?.();
+    return pending;
+  }
+
+  /**
+   * Serialize and write a message (or batch) to the output stream
+   * @private
+   */
+  private send(message: WireMessage | WireMessage[]): void {
+    const data = encodeMessage(JSON.stringify(message), this.config.framing);
+    this.config.output.write(data, (error) => {
+      if (error) this.emit('error', error);
+    });
+  }
+
+  /**
+   * Point the stdout console methods at stderr until `close()`
+   * @private
+   */
+  private redirectConsole(): void {
+    const stderrConsole = new Console(process.stderr, process.stderr);
+    const originals = STDOUT_CONSOLE_METHODS.map((name) => [name, console[name]] as const);
+
+    for (const name of STDOUT_CONSOLE_METHODS) {
+      console[name] = stderrConsole[name].bind(stderrConsole);
+    }
+    this.restoreConsole = () => {
+      for (const [name, original] of originals) {
+        (console as unknown as Record<string, unknown>)[name] = original;
+      }
+    };
+  }
+
+  /**
+   * Debug logging (to stderr, which is free for diagnostics)
+   * @private
+   */
+  private log(...args: unknown[]): void {
+    if (this.config.debug) {
+      console.error('[StdioServer]', ...args);
+    }
+  }
+}
+
+/**
+ * Build an error response
+ * @private
+ */
+function errorResponse(
+  id: JSONRPCId | null,
+  code: number,
+  message: string,
+  data?: unknown
+): WireResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: data === undefined ? { code, message } : { code, message, data },
+  };
+}
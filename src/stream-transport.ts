@@ -0,0 +1,589 @@
+import { EventEmitter } from 'node:events';
+import { Duplex, type Readable, type Writable } from 'node:stream';
+import type { Transport } from '@gnana997/node-jsonrpc/transport';
+import { ProtocolError, type ProtocolErrorReason } from './errors.js';
+import { type MessageReader, createMessageReader, encodeMessage } from './framing.js';
+import { parseLogLine } from './logs.js';
+import type {
+  LogEntry,
+  LogInfo,
+  ProcessExitInfo,
+  StreamPair,
+  StreamSource,
+  StreamTransportConfig,
+  StreamTransportOptions,
+  WriteOptions,
+} from './types.js';
+
+const SNIPPET_LENGTH = 200;
+const DEFAULT_HIGH_WATER_MARK = 1024 * 1024;
+
+/**
+ * A framed message waiting for the writable stream to drain
+ */
+interface QueuedWrite {
+  data: string;
+  bytes: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Stream Transport implementation for JSON-RPC over any readable/writable pair
+ *
+ * Implements the Transport interface from @gnana997/node-jsonrpc on top of existing
+ * streams: Unix domain sockets, named pipes, `net.connect()`, the stdio of an
+ * already-running process or `Worker`, or `PassThrough` pairs in tests. Messages use
+ * the same framing, backpressure handling and validation as `StdioTransport`, which
+ * builds on this class.
+ *
+ * The transport closes (and emits `close`) when the readable stream ends.
+ *
+ * @example
+ * ```typescript
+ * import { connect } from 'node:net';
+ * import { JSONRPCClient } from '@gnana997/node-jsonrpc';
+ * import { StreamTransport } from 'node-stdio-jsonrpc';
+ *
+ * const transport = new StreamTransport({
+ *   streams: () => connect('/tmp/server.sock'),
+ * });
+ *
+ * const client = new JSONRPCClient({ transport });
+ * await client.connect();
+ * const result = await client.request('method', params);
+ * ```
+ */
+export class StreamTransport extends EventEmitter implements Transport {
+  protected options: Required<StreamTransportOptions>;
+  protected connected = false;
+  protected logLabel = 'StreamTransport';
+  private source: StreamSource | undefined;
+  private readable: Readable | null = null;
+  private writable: Writable | null = null;
+  private removeStreamListeners: (() => void) | null = null;
+  private reader: MessageReader;
+  private interceptors = new Set<(message: string) => boolean>();
+  private writeQueue: QueuedWrite[] = [];
+  // Writes held back under the 'wait' policy until the queue has room for them
+  private heldWrites: QueuedWrite[] = [];
+  private queuedBytes = 0;
+  private waitingForDrain = false;
+  private recentLogs: LogEntry[] = [];
+
+  constructor(config: StreamTransportConfig = {}) {
+    super();
+    this.source = config.streams;
+    this.options = {
+      connectionTimeout: config.connectionTimeout ?? 10000,
+      debug: config.debug ?? false,
+      framing: config.framing ?? 'newline',
+      writeQueue: config.writeQueue ?? {},
+      maxMessageBytes: config.maxMessageBytes ?? 64 * 1024 * 1024,
+      oversizePolicy: config.oversizePolicy ?? 'error',
+      stdoutNoise: config.stdoutNoise ?? 'error',
+      structuredLogs: config.structuredLogs ?? false,
+      logBufferSize: config.logBufferSize ?? 100,
+    };
+    this.reader = createMessageReader(this.options.framing, {
+      maxMessageBytes: this.options.maxMessageBytes,
+      onOversize: (bytes, head) => this.handleOversize(bytes, head),
+    });
+  }
+
+  /**
+   * Connect by opening the configured streams
+   *
+   * Sockets that are still connecting are waited for, bounded by `connectionTimeout`.
+   *
+   * @throws Error if no streams are configured, the streams are already closed or
+   *   the socket fails to connect
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      this.log('Already connected');
+      return;
+    }
+    if (!this.source) {
+      throw new Error('No streams configured');
+    }
+
+    this.log('Opening streams');
+    const { readable, writable } = await this.withTimeout(openStreams(this.source));
+    if (readable.readableEnded || readable.destroyed || writable.destroyed) {
+      throw new Error('Streams are already closed');
+    }
+    await this.withTimeout(waitForSocket(writable), () => writable.destroy());
+
+    this.attach(readable, writable);
+
+    let closed = false;
+    const onClose = () => {
+      if (closed || this.readable !== readable) return;
+      closed = true;
+      this.log('Streams closed');
+      this.detach(new Error('Stream closed before message was written'));
+      this.emit('close', null, null);
+    };
+    readable.on('end', onClose);
+    readable.on('close', onClose);
+    if ((writable as unknown) !== readable) {
+      writable.on('close', onClose);
+    }
+
+    this.connected = true;
+    this.log('Connected to streams');
+  }
+
+  /**
+   * Disconnect by ending the writable stream
+   *
+   * Messages still waiting for the stream to drain are rejected. The readable side is
+   * left to the peer, which is expected to close it once it sees the end of its input.
+   *
+   * @returns Always undefined; streams have no exit status
+   */
+  async disconnect(): Promise<ProcessExitInfo | undefined> {
+    const writable = this.writable;
+    if (!writable) {
+      return undefined;
+    }
+
+    this.log('Disconnecting from streams');
+    this.detach(new Error('Transport disconnected before message was written'));
+    writable.end();
+    this.emit('close', null, null);
+    return undefined;
+  }
+
+  /**
+   * Send a message to the server
+   * Messages are framed according to the configured framing mode
+   *
+   * Write failures are emitted as `error` events; use `write()` to observe them per message.
+   */
+  send(message: string): void {
+    if (!this.writable || !this.connected) {
+      this.emit('error', new Error('Cannot send - not connected'));
+      return;
+    }
+
+    this.write(message).catch((error: Error) => {
+      this.emit('error', error);
+    });
+  }
+
+  /**
+   * Write a message to the writable stream, honouring backpressure
+   *
+   * Resolves once the message has been handed to the stream. While the stream is
+   * applying backpressure the message waits in a bounded queue (see `writeQueue`); once
+   * that is full, the `'wait'` policy holds the write back until the queue has room.
+   *
+   * @throws Error if not connected, if the queue is full under the `'reject'` policy,
+   *   or if the write itself fails (e.g. EPIPE)
+   */
+  write(message: string, options: WriteOptions = {}): Promise<void> {
+    const writable = this.writable;
+    if (!this.connected || !writable) {
+      return Promise.reject(new Error('Cannot send - not connected'));
+    }
+
+    const data = encodeMessage(message, this.options.framing);
+    const bytes = Buffer.byteLength(data);
+    const { highWaterMark = DEFAULT_HIGH_WATER_MARK, overflow = 'wait' } = this.options.writeQueue;
+
+    if (
+      this.waitingForDrain &&
+      (this.heldWrites.length > 0 || this.queuedBytes + bytes > highWaterMark)
+    ) {
+      if (overflow === 'reject') {
+        return Promise.reject(
+          new Error(`Write queue full (${this.queuedBytes} bytes queued, limit ${highWaterMark})`)
+        );
+      }
+      if (overflow === 'drop-notifications' && options.notification) {
+        this.log('Write queue full, dropping notification:', message);
+        return Promise.resolve();
+      }
+      if (overflow === 'wait') {
+        this.log('Write queue full, holding:', message);
+        return new Promise((resolve, reject) => {
+          this.heldWrites.push({ data, bytes, resolve, reject });
+        });
+      }
+    }
+
+    this.log('Sending:', message);
+    return new Promise((resolve, reject) => {
+      const entry: QueuedWrite = { data, bytes, resolve, reject };
+      if (this.waitingForDrain) {
+        this.writeQueue.push(entry);
+        this.queuedBytes += bytes;
+      } else {
+        this.writeToStream(writable, entry);
+      }
+    });
+  }
+
+  /**
+   * Number of messages and bytes waiting for the writable stream to drain
+   */
+  getWriteQueueSize(): { messages: number; bytes: number } {
+    return { messages: this.writeQueue.length, bytes: this.queuedBytes };
+  }
+
+  /**
+   * Recent log lines from the server, oldest first
+   *
+   * Holds up to `logBufferSize` lines and survives the connection closing, so it can
+   * be inspected after a crash.
+   */
+  getRecentLogs(): LogEntry[] {
+    return [...this.recentLogs];
+  }
+
+  /**
+   * Check if connected to the server
+   */
+  isConnected(): boolean {
+    return this.connected && this.writable !== null && !this.writable.destroyed;
+  }
+
+  /**
+   * Start reading framed messages from `readable` and writing to `writable`
+   * @protected
+   */
+  protected attach(readable: Readable, writable: Writable): void {
+    this.removeStreamListeners?.();
+    // Drop any partial frame left over from previous streams
+    this.reader.reset();
+    this.readable = readable;
+    this.writable = writable;
+
+    const onData = (data: Buffer) => this.handleData(data);
+    const onReadError = (error: Error) => {
+      this.log('Read error:', error.message);
+      if (this.connected) {
+        this.emit('error', error);
+      }
+    };
+    // Write failures (e.g. EPIPE after the peer died) are reported through write callbacks
+    const onWriteError = (error: Error) => {
+      this.log('Write error:', error.message);
+    };
+
+    readable.on('data', onData);
+    readable.on('error', onReadError);
+    if ((writable as unknown) !== readable) {
+      writable.on('error', onWriteError);
+    }
+
+    this.removeStreamListeners = () => {
+      readable.off('data', onData);
+      // Keep the streams from throwing unhandled errors after they are let go
+      readable.off('error', onReadError);
+      readable.on('error', onWriteError);
+    };
+  }
+
+  /**
+   * Stop using the current streams and fail every queued write with `error`
+   * @protected
+   */
+  protected detach(error: Error): void {
+    this.removeStreamListeners?.();
+    this.removeStreamListeners = null;
+    this.readable = null;
+    this.writable = null;
+    this.connected = false;
+    this.reader.reset();
+    this.clearWriteQueue(error);
+  }
+
+  /**
+   * Let readiness checks observe framed messages; return true to swallow a message
+   * @returns A function that removes the interceptor
+   * @protected
+   */
+  protected intercept(interceptor: (message: string) => boolean): () => void {
+    this.interceptors.add(interceptor);
+    return () => this.interceptors.delete(interceptor);
+  }
+
+  /**
+   * Stop the peer after an oversized message under the `'kill'` policy
+   * @protected
+   */
+  protected abort(): void {
+    this.log('Destroying streams after oversized message');
+    this.readable?.destroy();
+    this.writable?.destroy();
+  }
+
+  /**
+   * Record a server log line and emit it as a `log` event
+   * @protected
+   */
+  protected emitLog(line: string, stream: LogInfo['stream']): void {
+    const info = parseLogLine(line, stream, this.options.structuredLogs);
+    this.log(`Server ${stream}:`, line);
+
+    if (this.options.logBufferSize > 0) {
+      this.recentLogs.push({ message: line, ...info });
+      if (this.recentLogs.length > this.options.logBufferSize) {
+        this.recentLogs.shift();
+      }
+    }
+
+    this.emit('log', line, info);
+  }
+
+  /**
+   * Debug logging
+   * @protected
+   */
+  protected log(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log(`[${this.logLabel}]`, ...args);
+    }
+  }
+
+  /**
+   * Reject with a timeout error if `promise` takes longer than `connectionTimeout`
+   * @private
+   */
+  private withTimeout<T>(promise: Promise<T>, onTimeout?: () => void): Promise<T> {
+    const { connectionTimeout } = this.options;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        onTimeout?.();
+        reject(new Error(`Connection timeout after ${connectionTimeout}ms`));
+      }, connectionTimeout);
+      promise.then(resolve, reject).finally(() => clearTimeout(timeout));
+    });
+  }
+
+  /**
+   * Write one entry and pause the queue if the stream reports backpressure
+   * @private
+   */
+  private writeToStream(writable: Writable, entry: QueuedWrite): void {
+    const accepted = writable.write(entry.data, (error) => {
+      if (error) {
+        entry.reject(error);
+      } else {
+        entry.resolve();
+      }
+    });
+
+    if (!accepted && !this.waitingForDrain) {
+      this.waitingForDrain = true;
+      writable.once('drain', () => this.flushWriteQueue(writable));
+    }
+  }
+
+  /**
+   * Write queued entries after `drain` until the stream pushes back again
+   * @private
+   */
+  private flushWriteQueue(writable: Writable): void {
+    if (this.writable !== writable) return;
+
+    this.waitingForDrain = false;
+    while (!this.waitingForDrain) {
+      const entry = this.writeQueue.shift();
+      if (!entry) break;
+      this.queuedBytes -= entry.bytes;
+      this.writeToStream(writable, entry);
+    }
+    this.admitHeldWrites(writable);
+  }
+
+  /**
+   * Move held writes into the queue (or straight to the stream) while there is room
+   * @private
+   */
+  private admitHeldWrites(writable: Writable): void {
+    const { highWaterMark = DEFAULT_HIGH_WATER_MARK } = this.options.writeQueue;
+    for (let entry = this.heldWrites[0]; entry; entry = this.heldWrites[0]) {
+      // An empty queue always takes the next write, even one above the limit
+      if (
+        this.waitingForDrain &&
+        this.queuedBytes > 0 &&
+        this.queuedBytes + entry.bytes > highWaterMark
+      ) {
+        return;
+      }
+      this.heldWrites.shift();
+      if (this.waitingForDrain) {
+        this.writeQueue.push(entry);
+        this.queuedBytes += entry.bytes;
+      } else {
+        this.writeToStream(writable, entry);
+      }
+    }
+  }
+
+  /**
+   * Fail every queued or held write, e.g. because the peer is gone
+   * @private
+   */
+  private clearWriteQueue(error: Error): void {
+    const queued = [...this.writeQueue, ...this.heldWrites];
+    this.writeQueue = [];
+    this.heldWrites = [];
+    this.queuedBytes = 0;
+    this.waitingForDrain = false;
+    for (const entry of queued) {
+      entry.reject(error);
+    }
+  }
+
+  /**
+   * Handle incoming data from the readable stream
+   * Delegates framing to the configured message reader
+   * @private
+   */
+  private handleData(data: Buffer): void {
+    let messages: string[];
+    try {
+      messages = this.reader.push(data);
+    } catch (error) {
+      // A malformed frame leaves the stream in an unknown state, so drop what we have
+      this.reader.reset();
+      this.log('Framing error:', (error as Error).message);
+      this.emit('error', error as Error);
+      return;
+    }
+
+    for (const message of messages) {
+      const reason = checkMessage(message);
+      if (reason) {
+        this.handleInvalidMessage(message, reason);
+        continue;
+      }
+
+      if (this.isIntercepted(message)) continue;
+      this.log('Received:', message);
+      this.emit('message', message);
+    }
+  }
+
+  /**
+   * Treat a frame that is not JSON-RPC as stdout noise or a protocol error
+   * @private
+   */
+  private handleInvalidMessage(message: string, reason: ProtocolErrorReason): void {
+    if (reason === 'invalid-json' && this.options.stdoutNoise !== 'error') {
+      if (this.options.stdoutNoise === 'log') {
+        this.emitLog(message, 'stdout');
+      }
+      return;
+    }
+
+    this.reportProtocolError(
+      new ProtocolError(
+        reason,
+        reason === 'invalid-json'
+          ? 'Received invalid JSON from server'
+          : 'Received a message that is not JSON-RPC 2.0',
+        message.slice(0, SNIPPET_LENGTH),
+        Buffer.byteLength(message)
+      )
+    );
+  }
+
+  /**
+   * Apply the oversize policy to a frame the reader skipped
+   * @private
+   */
+  private handleOversize(bytes: number, head: Buffer): void {
+    const error = new ProtocolError(
+      'oversize',
+      `Message of ${bytes} bytes exceeds maxMessageBytes (${this.options.maxMessageBytes})`,
+      head.subarray(0, SNIPPET_LENGTH).toString('utf8'),
+      bytes
+    );
+    this.reportProtocolError(error);
+
+    if (this.options.oversizePolicy === 'error') {
+      this.emit('error', error);
+    } else if (this.options.oversizePolicy === 'kill') {
+      this.abort();
+    }
+  }
+
+  /**
+   * Emit a protocol error for a frame that will not be delivered
+   * @private
+   */
+  private reportProtocolError(error: ProtocolError): void {
+    this.log('Protocol error:', error.message, '-', error.snippet);
+    this.emit('protocolError', error);
+  }
+
+  /**
+   * Offer a message to readiness interceptors; true if one of them swallowed it
+   * @private
+   */
+  private isIntercepted(message: string): boolean {
+    let intercepted = false;
+    for (const interceptor of this.interceptors) {
+      if (interceptor(message)) intercepted = true;
+    }
+    return intercepted;
+  }
+}
+
+/**
+ * Resolve a stream source to a readable/writable pair
+ */
+async function openStreams(source: StreamSource): Promise<StreamPair> {
+  const streams = typeof source === 'function' ? await source() : source;
+  return streams instanceof Duplex ? { readable: streams, writable: streams } : streams;
+}
+
+/**
+ * Wait for a socket that is still connecting; other streams are ready immediately
+ */
+function waitForSocket(writable: Writable): Promise<void> {
+  if (!(writable as { connecting?: boolean }).connecting) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const onConnect = () => {
+      writable.off('error', onError);
+      resolve();
+    };
+    const onError = (error: Error) => {
+      writable.off('connect', onConnect);
+      reject(error);
+    };
+    writable.once('connect', onConnect);
+    writable.once('error', onError);
+  });
+}
+
+/**
+ * Check that a frame is a JSON-RPC 2.0 message or batch
+ * @returns Why the frame is invalid, or undefined if it is acceptable
+ */
+function checkMessage(message: string): ProtocolErrorReason | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message);
+  } catch {
+    return 'invalid-json';
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed.length > 0 ? undefined : 'invalid-message';
+  }
+  const isMessage =
+    typeof parsed === 'object' &&
+    parsed !== null &&
+    (parsed as { jsonrpc?: unknown }).jsonrpc === '2.0';
+  return isMessage ? undefined : 'invalid-message';
+}
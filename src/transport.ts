@@ -1,13 +1,32 @@
 import { type ChildProcess, spawn } from 'node:child_process';
-import { EventEmitter } from 'node:events';
-import type { Transport } from '@gnana997/node-jsonrpc/transport';
-import type { StdioTransportConfig } from './types.js';
+import { constants } from 'node:os';
+import type { Readable, Writable } from 'node:stream';
+import { createRedactor, defaultEnvStrategy, resolveEnv, validateEnvOptions } from './env.js';
+import { ProcessExitedError } from './errors.js';
+import { encodeMessage } from './framing.js';
+import { LogLineReader } from './logs.js';
+import { waitForReadiness } from './readiness.js';
+import { StreamTransport } from './stream-transport.js';
+import type {
+  LogInfo,
+  MessageFds,
+  ProcessExitDetails,
+  ProcessExitInfo,
+  ProcessSpawnOptions,
+  StdioTransportConfig,
+} from './types.js';
+
+export { StreamTransport } from './stream-transport.js';
+
+const STDERR_TAIL_LINES = 20;
 
 /**
  * Stdio Transport implementation for JSON-RPC over child process communication
  *
  * Implements the Transport interface from @gnana997/node-jsonrpc for stdio communication.
- * Spawns a child process and communicates via stdin/stdout using line-delimited JSON.
+ * Spawns a child process and communicates via stdin/stdout using line-delimited JSON
+ * or LSP-style `Content-Length` framing. Framing and write handling come from
+ * `StreamTransport`, attached to the pipes of each spawned process.
  *
  * @example
  * ```typescript
@@ -24,29 +43,102 @@ import type { StdioTransportConfig } from './types.js';
  * const result = await client.request('method', params);
  * ```
  */
-export class StdioTransport extends EventEmitter implements Transport {
-  private config: Required<Omit<StdioTransportConfig, 'cwd' | 'env'>> & {
+export class StdioTransport extends StreamTransport {
+  private config: Required<
+    Pick<
+      StdioTransportConfig,
+      | 'command'
+      | 'args'
+      | 'env'
+      | 'envStrategy'
+      | 'envFile'
+      | 'redactSecrets'
+      | 'shutdown'
+      | 'readiness'
+      | 'killOnDisconnect'
+      | 'spawn'
+    >
+  > & {
     cwd: string;
-    env: NodeJS.ProcessEnv;
+    process: ChildProcess | null;
   };
   private process: ChildProcess | null = null;
-  private buffer = '';
-  private connected = false;
+  private redact: (text: string) => string = (text) => text;
+  private removeProcessListeners: (() => void) | null = null;
 
   constructor(config: StdioTransportConfig) {
-    super();
+    const {
+      command,
+      args,
+      cwd,
+      env,
+      envStrategy,
+      envFile,
+      redactSecrets,
+      process: child,
+      killOnDisconnect,
+      spawn: spawnOptions = {},
+      shutdown,
+      readiness,
+      ...options
+    } = config;
+    if (command === undefined && !child) {
+      throw new Error('Either command or process is required');
+    }
+    validateSpawnOptions(spawnOptions, !child);
+    const envOptions = {
+      env: env ?? {},
+      envFile: envFile ?? [],
+      envStrategy: envStrategy ?? defaultEnvStrategy(env, envFile),
+    };
+    validateEnvOptions(envOptions);
+
+    super(options);
+    this.logLabel = 'StdioTransport';
     this.config = {
-      command: config.command,
-      args: config.args ?? [],
-      cwd: config.cwd ?? process.cwd(),
-      env: config.env ?? process.env,
-      connectionTimeout: config.connectionTimeout ?? 10000,
-      debug: config.debug ?? false,
+      command: command ?? '',
+      args: args ?? [],
+      cwd: cwd ?? process.cwd(),
+      ...envOptions,
+      redactSecrets: redactSecrets ?? true,
+      process: child ?? null,
+      killOnDisconnect: killOnDisconnect ?? true,
+      spawn: spawnOptions,
+      shutdown: shutdown ?? {},
+      readiness: readiness ?? 'spawn',
     };
   }
 
   /**
-   * Connect to the server by spawning a child process
+   * Create a transport for a child process that was spawned elsewhere
+   *
+   * The process must have piped stdin and stdout; stderr is read if it is piped too.
+   * Output written before `connect()` is not seen, and `uptime` in exit details counts
+   * from `connect()`.
+   *
+   * @param child - The process to adopt
+   * @param config - Transport options; set `killOnDisconnect: false` to leave the process
+   *   running on `disconnect()`
+   *
+   * @example
+   * ```typescript
+   * const child = spawn('server', [], { stdio: ['pipe', 'pipe', 'inherit'], detached: true });
+   * const transport = StdioTransport.fromChildProcess(child, { killOnDisconnect: false });
+   * await transport.connect();
+   * ```
+   */
+  static fromChildProcess(
+    child: ChildProcess,
+    config: Omit<
+      StdioTransportConfig,
+      'command' | 'args' | 'cwd' | 'env' | 'envStrategy' | 'envFile' | 'process'
+    > = {}
+  ): StdioTransport {
+    return new StdioTransport({ ...config, process: child });
+  }
+
+  /**
+   * Connect to the server by spawning a child process, or by adopting `process`
    */
   async connect(): Promise<void> {
     if (this.connected) {
@@ -54,86 +146,59 @@ export class StdioTransport extends EventEmitter implements Transport {
       return;
     }
 
-    this.log('Spawning process:', this.config.command, this.config.args.join(' '));
-
     return new Promise((resolve, reject) => {
-      let connectionDelay: NodeJS.Timeout | undefined;
       let timeout: NodeJS.Timeout | undefined;
+      let stopWaiting: (() => void) | undefined;
       let settled = false;
 
+      const settle = () => {
+        settled = true;
+        if (timeout) clearTimeout(timeout);
+        stopWaiting?.();
+      };
+
       const resolveOnce = () => {
         if (settled) return;
-        settled = true;
+        settle();
         this.connected = true;
         resolve();
       };
 
       const rejectOnce = (error: Error) => {
         if (settled) return;
-        settled = true;
+        settle();
         this.connected = false;
         reject(error);
       };
 
       try {
-        // Spawn child process with piped stdio
-        const childProcess = spawn(this.config.command, this.config.args, {
-          stdio: ['pipe', 'pipe', 'pipe'], // stdin, stdout, stderr
-          cwd: this.config.cwd,
-          env: this.config.env,
-          shell: false,
-        });
+        const childProcess = this.startProcess();
 
         this.process = childProcess;
+        const startedAt = Date.now();
 
-        // For stdio, connection is established when process spawns successfully
-        // Give a small delay to catch immediate spawn errors
-        connectionDelay = setTimeout(() => {
-          // Check if process is still running
-          if (
-            !this.connected &&
-            this.process === childProcess &&
-            !childProcess.killed &&
-            childProcess.exitCode === null
-          ) {
-            this.log('Connected to process (PID:', childProcess.pid, ')');
-            resolveOnce();
-          } else if (childProcess.exitCode !== null && !settled) {
-            // Process exited before connection delay, reject
-            const error = new Error(
-              `Process exited immediately with code: ${childProcess.exitCode}`
-            );
-            rejectOnce(error);
-          }
-        }, 100);
-
-        // Timeout for overall connection (catches slow spawn failures)
+        // Timeout for overall connection, including the readiness check
         timeout = setTimeout(() => {
-          if (connectionDelay) clearTimeout(connectionDelay);
           this.cleanup();
-          rejectOnce(new Error(`Connection timeout after ${this.config.connectionTimeout}ms`));
-        }, this.config.connectionTimeout);
-
-        // Handle stdout data (JSON-RPC messages)
-        childProcess.stdout?.on('data', (data: Buffer) => {
-          if (timeout) clearTimeout(timeout);
-          if (connectionDelay) clearTimeout(connectionDelay);
-          this.handleData(data);
-        });
-
-        // Handle stderr data (server logs)
-        childProcess.stderr?.on('data', (data: Buffer) => {
-          const message = data.toString().trim();
-          if (message) {
-            this.log('Server stderr:', message);
-            this.emit('log', message);
-          }
-        });
+          rejectOnce(new Error(`Connection timeout after ${this.options.connectionTimeout}ms`));
+        }, this.options.connectionTimeout);
+
+        // JSON-RPC messages flow over stdout and stdin, or the configured descriptors
+        const { input, output } = messageStreams(childProcess, this.config.spawn.messageFds);
+        if (input && output) {
+          this.attach(output, input);
+        }
+
+        // Handle stderr data (server logs), one event per complete line
+        const stderrTail: string[] = [];
+        const stopReadingLogs = [this.readLogLines(childProcess.stderr, 'stderr', stderrTail)];
+        if (output !== childProcess.stdout) {
+          stopReadingLogs.push(this.readLogLines(childProcess.stdout, 'stdout', null));
+        }
 
         // Handle process errors
-        childProcess.on('error', (error: Error) => {
-          if (timeout) clearTimeout(timeout);
-          if (connectionDelay) clearTimeout(connectionDelay);
+        const onError = (error: Error) => {
+          error.message = this.redact(error.message);
           this.log('Process error:', error.message);
 
           // Only emit error event if already connected (otherwise we're rejecting the promise)
@@ -142,35 +207,68 @@ export class StdioTransport extends EventEmitter implements Transport {
           }
 
           rejectOnce(error);
-        });
+        };
 
         // Handle process exit
-        childProcess.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
-          if (timeout) clearTimeout(timeout);
-          if (connectionDelay) clearTimeout(connectionDelay);
+        const onClose = (code: number | null, signal: NodeJS.Signals | null) => {
           this.log('Process closed with code:', code, 'signal:', signal);
 
+          // Ignore a previous process closing after we have already spawned a new one
+          if (this.process !== childProcess && this.process !== null) return;
+
+          this.detach(new Error('Process exited before message was written'));
+
+          const details: ProcessExitDetails = {
+            code,
+            signal,
+            pid: childProcess.pid,
+            uptime: Date.now() - startedAt,
+            stderr: stderrTail.map(this.redact),
+          };
+          this.emit('exit', details);
+
           // If we're still connecting (not yet settled), reject with error
           if (!settled) {
-            const error = new Error(
-              `Process exited during connection with code: ${code}, signal: ${signal}`
-            );
-            rejectOnce(error);
+            rejectOnce(new ProcessExitedError(details, 'during connection'));
           } else {
             // Already connected, just mark as disconnected and emit close
             this.connected = false;
-            this.emit('close');
+            this.emit('close', code, signal);
           }
-        });
+        };
 
-        childProcess.on('exit', (code: number | null, signal: NodeJS.Signals | null) => {
-          if (connectionDelay) clearTimeout(connectionDelay);
+        const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
           this.log('Process exited with code:', code, 'signal:', signal);
-          this.connected = false;
-        });
+          if (this.process === childProcess || this.process === null) {
+            this.connected = false;
+          }
+        };
+
+        childProcess.on('error', onError);
+        childProcess.on('close', onClose);
+        childProcess.on('exit', onExit);
+        this.removeProcessListeners = () => {
+          for (const stop of stopReadingLogs) stop();
+          childProcess.off('error', onError);
+          childProcess.off('close', onClose);
+          childProcess.off('exit', onExit);
+        };
+
+        // The process counts as connected once the readiness strategy is satisfied
+        stopWaiting = waitForReadiness(
+          this.config.readiness,
+          {
+            child: childProcess,
+            write: (message) => input?.write(encodeMessage(message, this.options.framing)),
+            intercept: (interceptor) => this.intercept(interceptor),
+            log: (...args) => this.log(...args),
+          },
+          () => {
+            this.log('Connected to process (PID:', childProcess.pid, ')');
+            resolveOnce();
+          }
+        );
       } catch (error) {
-        if (timeout) clearTimeout(timeout);
-        if (connectionDelay) clearTimeout(connectionDelay);
         rejectOnce(error as Error);
       }
     });
@@ -178,32 +276,38 @@ export class StdioTransport extends EventEmitter implements Transport {
 
   /**
    * Disconnect from the server by terminating the child process
+   *
+   * Runs the configured shutdown sequence (close stdin, SIGTERM, SIGKILL) and
+   * resolves once the process has exited. With `killOnDisconnect: false` the process
+   * is left running and only stops being used.
+   *
+   * @returns How the process exited, or undefined if there was no process or it was
+   *   left running
    */
-  async disconnect(): Promise<void> {
+  async disconnect(): Promise<ProcessExitInfo | undefined> {
     if (!this.process) {
-      return;
+      return undefined;
     }
 
-    this.log('Disconnecting from process');
-    this.cleanup();
-  }
+    const childProcess = this.process;
+    this.connected = false;
 
-  /**
-   * Send a message to the server via stdin
-   * Messages are sent as line-delimited JSON
-   */
-  send(message: string): void {
-    if (!this.process || !this.connected) {
-      this.emit('error', new Error('Cannot send - not connected'));
-      return;
+    if (!this.config.killOnDisconnect) {
+      this.log('Releasing process (PID:', childProcess.pid, ')');
+      this.cleanup();
+      this.emit('close', null, null);
+      return undefined;
     }
 
-    try {
-      this.log('Sending:', message);
-      this.process.stdin?.write(`${message}\n`);
-    } catch (error) {
-      this.emit('error', error as Error);
+    this.log('Disconnecting from process');
+
+    const exitInfo = await this.terminate(childProcess);
+    this.log('Process terminated with code:', exitInfo.code, 'signal:', exitInfo.signal);
+
+    if (this.process === childProcess) {
+      this.cleanup();
     }
+    return exitInfo;
   }
 
   /**
@@ -219,48 +323,244 @@ export class StdioTransport extends EventEmitter implements Transport {
   }
 
   /**
-   * Clean up process resources
+   * Stop a child process, escalating from stdin EOF to SIGTERM (or `killSignal`) to SIGKILL
+   * @private
+   */
+  private terminate(childProcess: ChildProcess): Promise<ProcessExitInfo> {
+    const { closeStdin = true, gracePeriod = 1000, killTimeout = 5000 } = this.config.shutdown;
+    const { killSignal = 'SIGTERM', messageFds } = this.config.spawn;
+
+    return new Promise((resolve) => {
+      if (childProcess.exitCode !== null || childProcess.signalCode !== null) {
+        resolve({ code: childProcess.exitCode, signal: childProcess.signalCode });
+        return;
+      }
+
+      let escalation: NodeJS.Timeout | undefined;
+
+      childProcess.once('exit', (code: number | null, signal: NodeJS.Signals | null) => {
+        if (escalation) clearTimeout(escalation);
+        resolve({ code, signal });
+      });
+
+      const sendSigterm = () => {
+        this.log('Sending', killSignal);
+        this.signal(childProcess, killSignal);
+        escalation = setTimeout(() => {
+          this.log('Process did not exit after', killSignal, 'sending SIGKILL');
+          this.signal(childProcess, 'SIGKILL');
+        }, killTimeout);
+      };
+
+      // A separate message input is closed along with stdin
+      const inputs = new Set([childProcess.stdin, messageStreams(childProcess, messageFds).input]);
+      const openInputs = [...inputs].filter((stream): stream is Writable =>
+        Boolean(stream && !stream.destroyed)
+      );
+      if (closeStdin && openInputs.length > 0) {
+        this.log('Closing stdin');
+        for (const stream of openInputs) stream.end();
+        escalation = setTimeout(sendSigterm, gracePeriod);
+      } else {
+        sendSigterm();
+      }
+    });
+  }
+
+  /**
+   * Kill the process after an oversized message under the `'kill'` policy
+   * @protected
+   */
+  protected abort(): void {
+    if (this.process) {
+      this.log('Killing process after oversized message');
+      this.signal(this.process, 'SIGKILL');
+    }
+  }
+
+  /**
+   * Debug logging with the values of secret environment variables redacted
+   * @protected
+   */
+  protected log(...args: unknown[]): void {
+    if (this.options.debug) {
+      super.log(...args.map((arg) => (typeof arg === 'string' ? this.redact(arg) : arg)));
+    }
+  }
+
+  /**
+   * The process to adopt, or a newly spawned one with piped stdio
+   * @private
+   */
+  private startProcess(): ChildProcess {
+    const child = this.config.process;
+    const { shell = false, extraStdio = [], messageFds, ...spawnOptions } = this.config.spawn;
+    if (!child) {
+      const env = resolveEnv(this.config);
+      this.redact = createRedactor(env, this.config.redactSecrets);
+      this.log('Spawning process:', this.config.command, this.config.args.join(' '));
+      return spawn(this.config.command, this.config.args, {
+        ...spawnOptions,
+        stdio: ['pipe', 'pipe', 'pipe', ...extraStdio], // stdin, stdout, stderr, extra fds
+        cwd: this.config.cwd,
+        env,
+        shell,
+      });
+    }
+
+    this.redact = createRedactor(process.env, this.config.redactSecrets);
+    this.log('Adopting process (PID:', child.pid, ')');
+    const { input, output } = messageStreams(child, messageFds);
+    if (!input || !output) {
+      const { input: inputFd = 0, output: outputFd = 1 } = messageFds ?? {};
+      throw new Error(`Adopted process needs piped ${fdName(inputFd)} and ${fdName(outputFd)}`);
+    }
+    if (child.exitCode !== null || child.signalCode !== null) {
+      throw new ProcessExitedError(
+        { code: child.exitCode, signal: child.signalCode, pid: child.pid, uptime: 0, stderr: [] },
+        'before it was adopted'
+      );
+    }
+    return child;
+  }
+
+  /**
+   * Clean up process resources, stopping the process unless `killOnDisconnect` is off
    * @private
    */
   private cleanup(): void {
     if (this.process) {
-      this.process.kill('SIGTERM');
+      if (this.config.killOnDisconnect) {
+        this.signal(this.process, this.config.spawn.killSignal ?? 'SIGTERM');
+      } else {
+        this.removeProcessListeners?.();
+        this.removeProcessListeners = null;
+      }
       this.process = null;
     }
-    this.connected = false;
-    this.buffer = '';
+    this.detach(new Error('Transport disconnected before message was written'));
   }
 
   /**
-   * Handle incoming data from stdout
-   * Implements line-delimited JSON framing
+   * Send a signal to the process, or to its whole process group when `detached` is set
    * @private
    */
-  private handleData(data: Buffer): void {
-    this.buffer += data.toString();
-
-    // Process complete JSON lines
-    let newlineIndex = this.buffer.indexOf('\n');
-    while (newlineIndex !== -1) {
-      const line = this.buffer.slice(0, newlineIndex).trim();
-      this.buffer = this.buffer.slice(newlineIndex + 1);
-
-      if (line.length > 0) {
-        this.log('Received:', line);
-        this.emit('message', line);
+  private signal(childProcess: ChildProcess, signal: NodeJS.Signals | number): void {
+    const { pid } = childProcess;
+    if (this.config.spawn.detached && pid !== undefined && process.platform !== 'win32') {
+      try {
+        process.kill(-pid, signal);
+        return;
+      } catch (error) {
+        this.log('Could not signal process group:', (error as Error).message);
       }
-
-      newlineIndex = this.buffer.indexOf('\n');
     }
+    childProcess.kill(signal);
   }
 
   /**
-   * Debug logging
+   * Emit a `log` event per complete line of `stream`, keeping the last lines in `tail`
+   * @returns A function that stops reading
    * @private
    */
-  private log(...args: unknown[]): void {
-    if (this.config.debug) {
-      console.log('[StdioTransport]', ...args);
+  private readLogLines(
+    stream: Readable | null,
+    name: LogInfo['stream'],
+    tail: string[] | null
+  ): () => void {
+    if (!stream) return () => {};
+
+    const lines = new LogLineReader();
+    const onLine = (line: string) => {
+      if (tail) {
+        tail.push(line);
+        if (tail.length > STDERR_TAIL_LINES) tail.shift();
+      }
+      this.emitLog(line, name);
+    };
+    const onData = (data: Buffer) => {
+      for (const line of lines.push(data)) onLine(line);
+    };
+    const onEnd = () => {
+      for (const line of lines.flush()) onLine(line);
+    };
+
+    stream.on('data', onData);
+    stream.on('end', onEnd);
+    return () => {
+      stream.off('data', onData);
+      stream.off('end', onEnd);
+    };
+  }
+}
+
+/**
+ * The streams of the descriptors carrying messages, if they are pipes
+ */
+function messageStreams(
+  child: ChildProcess,
+  fds: MessageFds = {}
+): { input: Writable | null; output: Readable | null } {
+  const { input = 0, output = 1 } = fds;
+  return {
+    input: (child.stdio[input] ?? null) as Writable | null,
+    output: (child.stdio[output] ?? null) as Readable | null,
+  };
+}
+
+function fdName(fd: number): string {
+  return ['stdin', 'stdout', 'stderr'][fd] ?? `fd ${fd}`;
+}
+
+/**
+ * Reject spawn options that `spawn()` would reject late or misinterpret
+ *
+ * @param spawning - Whether the transport spawns the process, so `extraStdio` is known
+ * @throws Error describing the first invalid option
+ */
+function validateSpawnOptions(options: ProcessSpawnOptions, spawning: boolean): void {
+  const { shell, uid, gid, killSignal, extraStdio = [], messageFds = {} } = options;
+
+  if (shell !== undefined && typeof shell !== 'boolean' && (typeof shell !== 'string' || !shell)) {
+    throw new Error('spawn.shell must be a boolean or the path of a shell');
+  }
+  for (const [name, id] of [
+    ['uid', uid],
+    ['gid', gid],
+  ] as const) {
+    if (id !== undefined && !(Number.isInteger(id) && id >= 0)) {
+      throw new Error(`spawn.${name} must be a non-negative integer`);
     }
   }
+  if (typeof killSignal === 'string' && !(killSignal in constants.signals)) {
+    throw new Error(`spawn.killSignal is not a known signal: ${killSignal}`);
+  }
+  if (typeof killSignal === 'number' && !(Number.isInteger(killSignal) && killSignal > 0)) {
+    throw new Error('spawn.killSignal must be a signal name or a positive integer');
+  }
+
+  const { input = 0, output = 1 } = messageFds;
+  validateMessageFd('input', input, 0, spawning ? extraStdio : null);
+  validateMessageFd('output', output, 1, spawning ? extraStdio : null);
+}
+
+/**
+ * Check that a message descriptor is the standard one or an extra pipe
+ *
+ * @param extraStdio - The extra stdio entries, or null for adopted processes
+ */
+function validateMessageFd(
+  name: keyof MessageFds,
+  fd: number,
+  standard: number,
+  extraStdio: ProcessSpawnOptions['extraStdio'] | null
+): void {
+  if (fd === standard) return;
+  if (!Number.isInteger(fd) || fd < 3) {
+    throw new Error(`spawn.messageFds.${name} must be ${standard} or a descriptor from 3 up`);
+  }
+  const entry = extraStdio?.[fd - 3];
+  if (extraStdio && entry !== 'pipe' && entry !== 'overlapped') {
+    throw new Error(`spawn.messageFds.${name} (fd ${fd}) must be a 'pipe' in spawn.extraStdio`);
+  }
 }
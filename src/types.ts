@@ -1,58 +1,1109 @@
+import type { ChildProcess, IOType } from 'node:child_process';
+import type { Duplex, Readable, Stream, Writable } from 'node:stream';
+import type { StdioClient } from './client.js';
+import type { ProtocolError } from './errors.js';
+
+/**
+ * Wire framing used to delimit JSON-RPC messages on stdin/stdout
+ *
+ * - `'newline'`: one JSON message per line (MCP and most custom servers)
+ * - `'content-length'`: LSP-style `Content-Length` headers followed by the body
+ */
+export type StdioFraming = 'newline' | 'content-length';
+
+/**
+ * How StdioTransport decides that a freshly spawned process is ready for requests
+ *
+ * - `'spawn'`: as soon as the OS reports the process has spawned
+ * - `{ pattern }`: when the pattern matches the process's stderr (or stdout) output
+ * - `{ notification }`: when the server sends a notification with this method
+ * - `{ probe }`: when a request with this method (e.g. `'ping'`) succeeds; it is re-sent
+ *   every `interval` ms until then, whether it failed or got no answer. Probe responses
+ *   are not emitted.
+ *
+ * Every strategy is bounded by `connectionTimeout`.
+ */
+export type ReadinessStrategy =
+  | 'spawn'
+  | { pattern: RegExp; stream?: 'stdout' | 'stderr' }
+  | { notification: string }
+  | { probe: string; params?: unknown; interval?: number };
+
+/**
+ * File descriptors carrying JSON-RPC messages, numbered as seen by the child process
+ *
+ * Descriptors from 3 up must be `'pipe'` entries of `ProcessSpawnOptions.extraStdio`.
+ */
+export interface MessageFds {
+  /**
+   * Descriptor the child reads messages from: 0 (stdin) or 3 and up
+   * @default 0
+   */
+  input?: number;
+
+  /**
+   * Descriptor the child writes messages to: 1 (stdout) or 3 and up. When it is not 1,
+   * stdout is read as log lines like stderr.
+   * @default 1
+   */
+  output?: number;
+}
+
+/**
+ * Options passed through to `child_process.spawn()`, validated by the transport
+ */
+export interface ProcessSpawnOptions {
+  /**
+   * Run the command in a shell (`true` for the default shell, or a shell path)
+   * @default false
+   */
+  shell?: boolean | string;
+
+  /**
+   * Start the process in its own process group; signals on disconnect then go to the
+   * whole group (POSIX), so children of the server are stopped too
+   * @default false
+   */
+  detached?: boolean;
+
+  /**
+   * User identity of the process
+   */
+  uid?: number;
+
+  /**
+   * Group identity of the process
+   */
+  gid?: number;
+
+  /**
+   * Hide the console window of the process on Windows
+   * @default false
+   */
+  windowsHide?: boolean;
+
+  /**
+   * Signal sent to stop the process on disconnect, before escalating to `SIGKILL`
+   * @default 'SIGTERM'
+   */
+  killSignal?: NodeJS.Signals | number;
+
+  /**
+   * Value of `argv[0]` for the process
+   * @default command
+   */
+  argv0?: string;
+
+  /**
+   * Extra stdio entries for file descriptors 3 and up, as in `spawn()`'s `stdio` option
+   * @default []
+   */
+  extraStdio?: Array<IOType | 'ipc' | Stream | number | null>;
+
+  /**
+   * Descriptors used for messages instead of stdin and stdout, e.g. `{ input: 3, output: 3 }`
+   * to keep stdout free for logs
+   */
+  messageFds?: MessageFds;
+}
+
+/**
+ * How the environment of the child process is built from the parent's `process.env`,
+ * `envFile` and `env` (later sources win)
+ *
+ * - `'inherit'`: the parent's environment as-is; `env` and `envFile` are not allowed
+ * - `'replace'`: only `envFile` and `env`, nothing from the parent
+ * - `'merge'`: the parent's environment with `envFile` and `env` on top
+ * - `{ inherit }`: only the listed parent variables (names or patterns, e.g.
+ *   `['PATH', 'HOME', /^LC_/]`), with `envFile` and `env` on top
+ */
+export type EnvStrategy = 'inherit' | 'replace' | 'merge' | { inherit: Array<string | RegExp> };
+
+/**
+ * Escalation sequence used to stop the child process on disconnect
+ *
+ * stdin is closed first so well-behaved servers can exit on EOF; the process is
+ * then sent `SIGTERM` (or `spawn.killSignal`) after `gracePeriod` and `SIGKILL` after
+ * a further `killTimeout`.
+ */
+export interface ShutdownPolicy {
+  /**
+   * Close the child's stdin (and the `messageFds.input` descriptor) before sending any signal
+   * @default true
+   */
+  closeStdin?: boolean;
+
+  /**
+   * Time to wait for the process to exit after stdin is closed, in milliseconds
+   * @default 1000
+   */
+  gracePeriod?: number;
+
+  /**
+   * Time to wait after `SIGTERM` before sending `SIGKILL`, in milliseconds
+   * @default 5000
+   */
+  killTimeout?: number;
+}
+
+/**
+ * Shutdown sequence for StdioClient, optionally starting with protocol-level messages
+ */
+export interface ClientShutdownPolicy extends ShutdownPolicy {
+  /**
+   * Request to send (and await) before stopping the process, e.g. LSP `'shutdown'`.
+   * Errors and timeouts are ignored so the process is always stopped.
+   */
+  request?: string;
+
+  /**
+   * Timeout for the shutdown request in milliseconds
+   * @default 5000
+   */
+  requestTimeout?: number;
+
+  /**
+   * Notification to send after the shutdown request, e.g. LSP `'exit'`
+   */
+  notification?: string;
+}
+
+/**
+ * How the child process exited
+ */
+export interface ProcessExitInfo {
+  /**
+   * Exit code, or null if the process was terminated by a signal
+   */
+  code: number | null;
+
+  /**
+   * Signal that terminated the process, or null if it exited on its own
+   */
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * What to do with a message when the outbound write queue is full
+ *
+ * - `'wait'`: hold the write back, without queueing it, until the queue has room again;
+ *   the write (and the request that caused it) stays pending meanwhile
+ * - `'reject'`: fail the write (and the request that caused it) immediately
+ * - `'drop-notifications'`: silently drop notifications, queue everything else
+ */
+export type WriteOverflowPolicy = 'wait' | 'reject' | 'drop-notifications';
+
+/**
+ * Bounds on messages buffered while the child's stdin is not accepting writes
+ *
+ * Messages are written straight through until stdin signals backpressure; after that
+ * they are held in the queue until stdin emits `drain`.
+ */
+export interface WriteQueuePolicy {
+  /**
+   * Maximum bytes held in the queue before `overflow` applies
+   * @default 1048576 (1 MiB)
+   */
+  highWaterMark?: number;
+
+  /**
+   * Behaviour once the queue holds `highWaterMark` bytes
+   * @default 'wait'
+   */
+  overflow?: WriteOverflowPolicy;
+}
+
+/**
+ * What to do when the server sends a frame larger than `maxMessageBytes`
+ *
+ * The frame is always skipped and reported as a `protocolError` event; in addition
+ * - `'drop'`: nothing else happens
+ * - `'error'`: the error is also emitted as an `error` event
+ * - `'kill'`: the child process is killed with `SIGKILL` (StreamTransport destroys its streams)
+ */
+export type OversizePolicy = 'drop' | 'error' | 'kill';
+
+/**
+ * What to do with stdout lines that are not JSON (banners, install progress, stray prints)
+ *
+ * - `'error'`: report them as `protocolError` events
+ * - `'log'`: emit them as `log` events tagged with `stream: 'stdout'`
+ * - `'ignore'`: drop them silently
+ */
+export type StdoutNoiseMode = 'error' | 'log' | 'ignore';
+
+/**
+ * Severity of a structured log record, normalised from pino/bunyan numbers or level names
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+/**
+ * Details of a `log` event
+ *
+ * `level`, `msg`, `time` and `fields` are only set for lines parsed as JSON
+ * with `structuredLogs` enabled.
+ */
+export interface LogInfo {
+  /**
+   * Where the line came from
+   */
+  stream: 'stdout' | 'stderr';
+
+  /**
+   * Normalised severity (`level` or `levelname`)
+   */
+  level?: LogLevel;
+
+  /**
+   * Log message (`msg`, `message` or structlog's `event`)
+   */
+  msg?: string;
+
+  /**
+   * Record time in milliseconds since the epoch (`time` or `timestamp`)
+   */
+  time?: number;
+
+  /**
+   * Every other property of the record
+   */
+  fields?: Record<string, unknown>;
+}
+
+/**
+ * A line kept in the recent-logs ring buffer
+ */
+export interface LogEntry extends LogInfo {
+  /**
+   * The complete line as written by the server
+   */
+  message: string;
+}
+
+/**
+ * Options for a single `StdioTransport.write()` call
+ */
+export interface WriteOptions {
+  /**
+   * Mark the message as a notification so `'drop-notifications'` may discard it
+   * @default false
+   */
+  notification?: boolean;
+}
+
+/**
+ * Diagnostics for a child process that has exited, as carried by the `exit` event
+ */
+export interface ProcessExitDetails extends ProcessExitInfo {
+  /**
+   * PID of the process, if it was spawned
+   */
+  pid: number | undefined;
+
+  /**
+   * Time between spawning and exiting, in milliseconds
+   */
+  uptime: number;
+
+  /**
+   * The last lines (up to 20) the process wrote to stderr
+   */
+  stderr: string[];
+}
+
+/**
+ * Readable/writable pair a `StreamTransport` reads messages from and writes messages to
+ */
+export interface StreamPair {
+  /**
+   * Stream the peer writes its messages to (e.g. a child's stdout)
+   */
+  readable: Readable;
+
+  /**
+   * Stream the peer reads messages from (e.g. a child's stdin)
+   */
+  writable: Writable;
+}
+
+/**
+ * Where a `StreamTransport` gets its streams from
+ *
+ * - a `Duplex` such as a `net.Socket`, used for both directions
+ * - a `StreamPair`, e.g. `{ readable: worker.stdout, writable: worker.stdin }`
+ * - a function returning either of them, called on every `connect()` so the
+ *   transport can reconnect (e.g. `() => net.connect(socketPath)`)
+ */
+export type StreamSource =
+  | Duplex
+  | StreamPair
+  | (() => Duplex | StreamPair | Promise<Duplex | StreamPair>);
+
+/**
+ * Framing and buffering options shared by StreamTransport and StdioTransport
+ */
+export interface StreamTransportOptions {
+  /**
+   * Connection timeout in milliseconds
+   * @default 10000
+   */
+  connectionTimeout?: number;
+
+  /**
+   * Enable debug logging to stderr
+   * @default false
+   */
+  debug?: boolean;
+
+  /**
+   * Message framing on stdin/stdout. Use `'content-length'` for language servers.
+   * @default 'newline'
+   */
+  framing?: StdioFraming;
+
+  /**
+   * Buffering of outbound messages while stdin applies backpressure
+   */
+  writeQueue?: WriteQueuePolicy;
+
+  /**
+   * Largest frame accepted from stdout, in bytes
+   * @default 67108864 (64 MiB)
+   */
+  maxMessageBytes?: number;
+
+  /**
+   * Behaviour when a frame exceeds `maxMessageBytes`
+   * @default 'error'
+   */
+  oversizePolicy?: OversizePolicy;
+
+  /**
+   * Handling of non-JSON lines on stdout (newline framing)
+   * @default 'error'
+   */
+  stdoutNoise?: StdoutNoiseMode;
+
+  /**
+   * Parse JSON log lines (pino, bunyan, structlog) into `level`, `msg`, `time` and `fields`
+   * @default false
+   */
+  structuredLogs?: boolean;
+
+  /**
+   * Number of recent log lines kept for `getRecentLogs()`; 0 disables the buffer
+   * @default 100
+   */
+  logBufferSize?: number;
+}
+
+/**
+ * Configuration for StreamTransport
+ *
+ * "stdin" and "stdout" in the shared options refer to the writable and readable stream.
+ */
+export interface StreamTransportConfig extends StreamTransportOptions {
+  /**
+   * Streams to exchange messages over. Subclasses that attach streams themselves,
+   * such as `StdioTransport`, leave it out.
+   */
+  streams?: StreamSource;
+}
+
+/**
+ * Configuration for StdioTransport
+ */
+export interface StdioTransportConfig extends StreamTransportOptions {
+  /**
+   * Command to execute (e.g., 'node', 'python', 'deno'); required unless `process` is set
+   */
+  command?: string;
+
+  /**
+   * Adopt this already-spawned process instead of spawning `command`. It needs piped
+   * stdin and stdout; `args`, `cwd`, `env`, `envStrategy` and `envFile` are ignored, and
+   * `redactSecrets` applies to the parent's environment.
+   */
+  process?: ChildProcess;
+
+  /**
+   * Stop the process on `disconnect()`. Turn it off to leave an adopted process running.
+   * @default true
+   */
+  killOnDisconnect?: boolean;
+
+  /**
+   * Further options for spawning the process: shell, process group, identity, kill
+   * signal, `argv0` and extra file descriptors. Only `detached`, `killSignal` and
+   * `messageFds` apply to an adopted `process`.
+   * @default {}
+   */
+  spawn?: ProcessSpawnOptions;
+
+  /**
+   * Command-line arguments (e.g., ['./server.js', '--debug'])
+   * @default []
+   */
+  args?: string[];
+
+  /**
+   * Working directory for the child process
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * Environment variables for the child process. Without `env` and `envFile` the child
+   * inherits `process.env`; with either, they replace it unless `envStrategy` says otherwise.
+   * @default {}
+   */
+  env?: NodeJS.ProcessEnv;
+
+  /**
+   * How `env` and `envFile` combine with the parent's environment. Defaults to
+   * `'inherit'` without `env` and `envFile`, and to `'replace'` with either of them.
+   */
+  envStrategy?: EnvStrategy;
+
+  /**
+   * `.env` files loaded for the child process, relative to `cwd`. Later files override
+   * earlier ones, and `env` overrides them all. Files are read again on every spawn.
+   */
+  envFile?: string | string[];
+
+  /**
+   * Replace the values of secret variables in the child's environment with `[redacted]`
+   * in debug logs, errors and exit details produced by the transport. `true` covers
+   * variables named like `*TOKEN*`, `*SECRET*`, `*PASSWORD*`, `*API_KEY*` and so on; a
+   * list names further variables. Values shorter than 4 characters are left alone.
+   * @default true
+   */
+  redactSecrets?: boolean | Array<string | RegExp>;
+
+  /**
+   * Shutdown sequence used by `disconnect()`
+   */
+  shutdown?: ShutdownPolicy;
+
+  /**
+   * When the spawned process is considered connected
+   * @default 'spawn'
+   */
+  readiness?: ReadinessStrategy;
+}
+
+/**
+ * Policy for automatically respawning a child process that exits unexpectedly
+ */
+export interface RestartPolicy<P extends ProtocolMap = UntypedProtocol> {
+  /**
+   * Maximum number of restarts allowed within `window` before giving up
+   * @default 5
+   */
+  maxRestarts?: number;
+
+  /**
+   * Delay before the first restart in milliseconds
+   * @default 500
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for the backoff delay in milliseconds
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay for each consecutive restart
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * Random spread applied to each delay, as a fraction of it (0-1)
+   * @default 0.2
+   */
+  jitter?: number;
+
+  /**
+   * Sliding window in milliseconds over which restarts are counted
+   * @default 60000
+   */
+  window?: number;
+
+  /**
+   * Only restart when the process exits with one of these codes, or is killed by one of
+   * these signals (e.g. `'SIGKILL'`). A killed process has no exit code, so list the
+   * signal rather than its shell code such as `137`.
+   * @default undefined (restart on any unexpected exit)
+   */
+  exitCodes?: Array<number | NodeJS.Signals>;
+
+  /**
+   * Called after each respawn, before requests queued during the restart are sent.
+   * Use it to re-run an initialization handshake; requests and notifications made from
+   * inside the hook (including code it awaits) are sent immediately, while calls from
+   * elsewhere keep waiting. A rejection counts as a failed restart attempt.
+   *
+   * Declared as a method so that a `StdioClient<P>` stays assignable to an untyped
+   * `StdioClient`.
+   */
+  onRestart?(client: StdioClient<P>): Promise<void> | void;
+}
+
+/**
+ * Notification sent to the server when a request is aborted
+ */
+export interface CancellationConfig {
+  /**
+   * Notification method, e.g. `'$/cancelRequest'` (LSP) or `'notifications/cancelled'` (MCP)
+   */
+  notification: string;
+
+  /**
+   * Build the notification params from the request id and abort reason
+   * @default (id) => ({ id })
+   */
+  params?: (id: string | number, reason: unknown) => unknown;
+}
+
+/**
+ * How progress tokens are attached to requests and read back from progress notifications
+ */
+export interface ProgressConfig {
+  /**
+   * Notification method carrying progress updates, e.g. `'notifications/progress'` (MCP)
+   * or `'$/progress'` (LSP)
+   */
+  notification: string;
+
+  /**
+   * Return the request params with the progress token attached
+   */
+  attachToken: (params: unknown, token: string | number) => unknown;
+
+  /**
+   * Extract the token and progress payload from notification params,
+   * or return undefined if they are not a progress update
+   */
+  parse: (params: unknown) => { token: string | number; value: unknown } | undefined;
+}
+
+/**
+ * Per-call options for `StdioClient.request()`
+ */
+export interface RequestOptions {
+  /**
+   * Abort the request; the returned promise rejects with `RequestCancelledError`
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for this call in milliseconds, overriding `requestTimeout`
+   */
+  timeout?: number;
+
+  /**
+   * Use this JSON-RPC id instead of an auto-incrementing one.
+   * Must not collide with another in-flight request.
+   */
+  id?: string | number;
+
+  /**
+   * Receive progress updates for this call. A progress token (the request id) is
+   * attached to the params according to the client's `progress` config.
+   */
+  onProgress?: (progress: unknown) => void;
+
+  /**
+   * Position in the request queue when `maxConcurrentRequests` is reached: higher
+   * priorities are sent first, equal priorities in call order
+   * @default 0
+   */
+  priority?: number;
+}
+
+/**
+ * One entry of a JSON-RPC batch
+ */
+export interface BatchEntry {
+  /**
+   * Method to call
+   */
+  method: string;
+
+  /**
+   * Parameters to send (optional)
+   */
+  params?: unknown;
+
+  /**
+   * Send as a notification (no response expected)
+   * @default false
+   */
+  notification?: boolean;
+}
+
+/**
+ * Bounds on requests waiting for a free slot under `maxConcurrentRequests`
+ */
+export interface RequestQueuePolicy {
+  /**
+   * Maximum number of waiting requests; further requests are rejected immediately
+   * @default Infinity
+   */
+  maxLength?: number;
+
+  /**
+   * Milliseconds a request may wait for a slot before it is rejected. The request's own
+   * timeout starts once it is sent.
+   * @default Infinity
+   */
+  timeout?: number;
+}
+
+/**
+ * Bounds on calls held by `queueWhileDisconnected` until the client is connected
+ */
+export interface DisconnectedQueuePolicy {
+  /**
+   * Maximum number of held requests and notifications; further calls are rejected
+   * immediately
+   * @default 1000
+   */
+  maxLength?: number;
+
+  /**
+   * Milliseconds a call may wait for the connection before it is rejected
+   * @default requestTimeout
+   */
+  timeout?: number;
+}
+
+/**
+ * Snapshot of a client's request load, returned by `StdioClient.stats()`
+ */
+export interface ClientStats {
+  /**
+   * Requests and batches sent and awaiting their responses
+   */
+  inFlight: number;
+
+  /**
+   * Requests and batches waiting for a slot under `maxConcurrentRequests`
+   */
+  queued: number;
+
+  /**
+   * Requests, batches and notifications held by `queueWhileDisconnected` or `autoConnect`
+   */
+  awaitingConnection: number;
+
+  /**
+   * The configured `maxConcurrentRequests`
+   */
+  maxConcurrentRequests: number;
+}
+
+/**
+ * Options for `StdioClient.batch()`
+ */
+export interface BatchOptions {
+  /**
+   * Timeout for each request in the batch, overriding `requestTimeout`
+   */
+  timeout?: number;
+
+  /**
+   * Position in the request queue, as for `RequestOptions.priority`
+   * @default 0
+   */
+  priority?: number;
+}
+
+/**
+ * Outcome of one batch entry: `[error, undefined]` on failure or `[null, result]` on success
+ */
+export type BatchResult<TResult = unknown> =
+  | [error: Error, result: undefined]
+  | [error: null, result: TResult];
+
+/**
+ * Configuration for StdioClient
+ *
+ * Set `command` to spawn a server, `process` to adopt one spawned elsewhere, or `streams`
+ * to talk to one over existing streams (sockets, named pipes, worker threads). Process
+ * options such as `args`, `readiness` and the signal part of `shutdown` only apply to
+ * child processes.
+ */
+export interface StdioClientConfig<P extends ProtocolMap = UntypedProtocol>
+  extends StdioTransportConfig {
+  /**
+   * Exchange messages over these streams instead of spawning `command`
+   */
+  streams?: StreamSource;
+
+  /**
+   * Request timeout in milliseconds
+   * @default 30000
+   */
+  requestTimeout?: number;
+
+  /**
+   * Respawn the child process when it exits unexpectedly.
+   * Pass `true` to use the default policy.
+   * @default false
+   */
+  restart?: RestartPolicy<P> | boolean;
+
+  /**
+   * Runtime validation of params and results per method (see `ValidatorMap`)
+   * @default {}
+   */
+  validators?: ValidatorMap<P>;
+
+  /**
+   * Requests (and batches) in flight at once; further ones wait in a queue ordered by
+   * `priority`, then call order
+   * @default Infinity
+   */
+  maxConcurrentRequests?: number;
+
+  /**
+   * Length and wait time limits of the queue used by `maxConcurrentRequests`
+   */
+  requestQueue?: RequestQueuePolicy;
+
+  /**
+   * Hold requests, batches and notifications made before `connect()` has finished or
+   * while the process is down, and send them in call order once it is connected.
+   * Without it, such calls fail with `Not connected`.
+   * @default false
+   */
+  queueWhileDisconnected?: DisconnectedQueuePolicy | boolean;
+
+  /**
+   * Spawn the process on the first call made while disconnected instead of failing.
+   * Calls wait for the connection as with `queueWhileDisconnected`.
+   * @default false
+   */
+  autoConnect?: boolean;
+
+  /**
+   * Shutdown sequence used by `disconnect()`, optionally preceded by a
+   * protocol-level shutdown request and exit notification
+   */
+  shutdown?: ClientShutdownPolicy;
+
+  /**
+   * Notify the server when a request is aborted through its `AbortSignal`.
+   * Use `'lsp'` for `$/cancelRequest`, `'mcp'` for `notifications/cancelled`,
+   * or a custom config. Without it, aborted requests are only rejected locally.
+   * @default false
+   */
+  cancellation?: 'lsp' | 'mcp' | CancellationConfig | false;
+
+  /**
+   * Progress protocol used for `onProgress` callbacks: `'mcp'` attaches
+   * `_meta.progressToken` and listens for `notifications/progress`; `'lsp'` attaches
+   * `workDoneToken` and listens for `$/progress`.
+   * @default 'mcp'
+   */
+  progress?: 'lsp' | 'mcp' | ProgressConfig;
+}
+
 /**
- * Configuration for StdioTransport
+ * Details of a scheduled restart
  */
-export interface StdioTransportConfig {
+export interface RestartingInfo {
   /**
-   * Command to execute (e.g., 'node', 'python', 'deno')
+   * Restart attempt number within the current window (starting at 1)
    */
-  command: string;
+  attempt: number;
 
   /**
-   * Command-line arguments (e.g., ['./server.js', '--debug'])
-   * @default []
+   * Backoff delay before the process is respawned, in milliseconds
    */
-  args?: string[];
+  delay: number;
 
   /**
-   * Working directory for the child process
-   * @default process.cwd()
+   * Exit code of the process that triggered the restart, if any
    */
-  cwd?: string;
+  code: number | null;
 
   /**
-   * Environment variables for the child process
-   * @default process.env
+   * Signal that terminated the process that triggered the restart, if any
    */
-  env?: NodeJS.ProcessEnv;
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * Signature of one method in a protocol map
+ *
+ * Leave out `params` for methods that take none; make it optional (`params?:`) when
+ * it may be omitted.
+ */
+export interface MethodSignature {
+  params?: unknown;
+  result?: unknown;
+}
+
+/**
+ * Methods of one direction of a protocol, keyed by method name
+ */
+export type MethodMap = Record<string, MethodSignature>;
 
+/**
+ * Describes a JSON-RPC protocol for end-to-end typing of `StdioClient`
+ *
+ * Sections that are left out stay untyped (any method name, `unknown` params and results).
+ *
+ * @example
+ * ```typescript
+ * type Calculator = {
+ *   requests: {
+ *     add: { params: { a: number; b: number }; result: number };
+ *     reset: { result: null };
+ *   };
+ *   notifications: { log: { params: { message: string } } };
+ *   serverNotifications: { 'progress/update': { params: { percent: number } } };
+ * };
+ *
+ * const client = new StdioClient<Calculator>({ command: 'calculator' });
+ * const sum = await client.request('add', { a: 1, b: 2 }); // number
+ * ```
+ */
+export interface ProtocolMap {
   /**
-   * Connection timeout in milliseconds
-   * @default 10000
+   * Requests the client sends to the server
    */
-  connectionTimeout?: number;
+  requests?: object;
 
   /**
-   * Enable debug logging to stderr
-   * @default false
+   * Notifications the client sends to the server
    */
-  debug?: boolean;
+  notifications?: object;
+
+  /**
+   * Requests the server sends to the client (see `onRequest`)
+   */
+  serverRequests?: object;
+
+  /**
+   * Notifications the server sends to the client (see the `notification` event)
+   */
+  serverNotifications?: object;
 }
 
 /**
- * Configuration for StdioClient
+ * A protocol map that accepts any method with `unknown` params and results
+ */
+export interface UntypedProtocol {
+  requests: MethodMap;
+  notifications: MethodMap;
+  serverRequests: MethodMap;
+  serverNotifications: MethodMap;
+}
+
+/**
+ * The methods of one section of a protocol map, or an untyped map if it is left out
+ */
+export type ProtocolSection<P, K extends keyof ProtocolMap> = P extends { [key in K]: infer S }
+  ? S
+  : MethodMap;
+
+/**
+ * Method names of a section
+ */
+export type MethodName<S> = Extract<keyof S, string>;
+
+/**
+ * Params type of a method (`undefined` if it declares none)
+ */
+export type MethodParams<S, M> = M extends keyof S
+  ? 'params' extends keyof S[M]
+    ? S[M]['params' & keyof S[M]]
+    : undefined
+  : unknown;
+
+/**
+ * Result type of a method (`unknown` if it declares none)
+ */
+export type MethodResult<S, M> = M extends keyof S
+  ? S[M] extends { result: infer R }
+    ? R
+    : unknown
+  : unknown;
+
+/**
+ * Argument list for a method's params followed by `Rest`, making params optional
+ * when `undefined` is acceptable
+ */
+export type ParamsArgs<TParams, Rest extends unknown[] = []> = undefined extends TParams
+  ? [params?: TParams, ...Rest]
+  : [params: TParams, ...Rest];
+
+declare const inferResult: unique symbol;
+
+/**
+ * Default for the explicit result type parameter of `request()`, meaning
+ * "use the result type from the protocol map"
+ */
+export type InferResult = typeof inferResult;
+
+/**
+ * Arguments of the `notification` event: a `[method, params]` pair per server notification
+ */
+export type NotificationEventArgs<P> = {
+  [M in MethodName<ProtocolSection<P, 'serverNotifications'>>]: [
+    method: M,
+    params: MethodParams<ProtocolSection<P, 'serverNotifications'>, M>,
+  ];
+}[MethodName<ProtocolSection<P, 'serverNotifications'>>];
+
+/**
+ * A validator following the Standard Schema v1 interface (Zod, Valibot, ArkType, ...)
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+      }>;
+    };
+
+/**
+ * The subset of JSON Schema understood by the built-in validator
+ *
+ * Unsupported keywords such as `$ref` and `format` are ignored.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema | boolean>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema | boolean;
+  anyOf?: Array<JsonSchema | boolean>;
+  oneOf?: Array<JsonSchema | boolean>;
+  allOf?: Array<JsonSchema | boolean>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * A Standard Schema validator or a JSON Schema
+ */
+export type Validator = StandardSchemaV1 | JsonSchema;
+
+/**
+ * One problem found by a validator
  */
-export interface StdioClientConfig extends StdioTransportConfig {
+export interface ValidationIssue {
+  message: string;
+
   /**
-   * Request timeout in milliseconds
-   * @default 30000
+   * Location of the problem inside the validated value; empty for the value itself
    */
-  requestTimeout?: number;
+  path: Array<string | number>;
+}
+
+/**
+ * Validators for the params and/or result of one method
+ */
+export interface MethodValidators {
+  params?: Validator;
+  result?: Validator;
+}
+
+type SectionValidators<P, K extends keyof ProtocolMap, V> = {
+  [M in MethodName<ProtocolSection<P, K>>]?: V;
+};
+
+/**
+ * Per-method validators, keyed like the sections of a protocol map
+ *
+ * - `requests`: outgoing params and incoming results of client requests
+ * - `notifications`: outgoing params of client notifications
+ * - `serverRequests`: incoming params and outgoing results of `onRequest` handlers
+ * - `serverNotifications`: incoming params of server notifications
+ */
+export interface ValidatorMap<P extends ProtocolMap = UntypedProtocol> {
+  requests?: SectionValidators<P, 'requests', MethodValidators>;
+  notifications?: SectionValidators<P, 'notifications', Pick<MethodValidators, 'params'>>;
+  serverRequests?: SectionValidators<P, 'serverRequests', MethodValidators>;
+  serverNotifications?: SectionValidators<
+    P,
+    'serverNotifications',
+    Pick<MethodValidators, 'params'>
+  >;
+}
+
+/**
+ * Context passed to handlers of server-to-client requests
+ */
+export interface RequestHandlerContext {
+  /**
+   * The id of the incoming request
+   */
+  id: string | number;
+
+  /**
+   * The method the server called
+   */
+  method: string;
 }
 
+/**
+ * Handler for a request sent by the server to the client
+ *
+ * The returned value (or resolved promise value) is sent back as the result.
+ * Throwing an error with a numeric `code` (such as `JSONRPCError`) sends that
+ * error; any other throw is reported as `-32603 Internal error`.
+ */
+export type RequestHandler<TParams = unknown, TResult = unknown> = (
+  params: TParams,
+  context: RequestHandlerContext
+) => TResult | Promise<TResult>;
+
 /**
  * Events emitted by StdioClient
  */
-export interface StdioClientEvents {
+export interface StdioClientEvents<P extends ProtocolMap = UntypedProtocol> {
   /**
    * Emitted when successfully connected to the server
    */
@@ -63,10 +1114,15 @@ export interface StdioClientEvents {
    */
   disconnected: [];
 
+  /**
+   * Emitted whenever the child process exits, whether it crashed or was stopped by `disconnect()`
+   */
+  exit: [details: ProcessExitDetails];
+
   /**
    * Emitted when a notification is received from the server
    */
-  notification: [method: string, params?: unknown];
+  notification: NotificationEventArgs<P>;
 
   /**
    * Emitted when an error occurs
@@ -74,7 +1130,227 @@ export interface StdioClientEvents {
   error: [error: Error];
 
   /**
-   * Emitted when the server writes to stderr
+   * Emitted when the server sends a frame that is oversized or not JSON-RPC
+   */
+  protocolError: [error: ProtocolError];
+
+  /**
+   * Emitted when the server writes to stderr, or prints non-JSON stdout with `stdoutNoise: 'log'`
+   */
+  log: [message: string, info: LogInfo];
+
+  /**
+   * Emitted when a restart has been scheduled after an unexpected exit
+   */
+  restarting: [info: RestartingInfo];
+
+  /**
+   * Emitted when the process has been respawned and the restart hook has completed
+   */
+  restarted: [info: { attempt: number }];
+
+  /**
+   * Emitted when the restart budget is exhausted and the client stays disconnected
+   */
+  gaveUp: [error: Error];
+}
+
+/**
+ * How `StdioClientPool` picks a worker for each request
+ *
+ * - `'least-pending'`: the worker with the fewest in-flight requests
+ * - `'round-robin'`: workers in turn
+ * - `'sticky'`: the same worker for the same `key` while it is alive, via rendezvous
+ *   hashing; requests without a key fall back to least-pending
+ */
+export type PoolStrategy = 'least-pending' | 'round-robin' | 'sticky';
+
+/**
+ * Configuration for `StdioClientPool`; every worker is spawned from the same client config
+ *
+ * Workers always spawn their own process from `command`: an adopted `process` or `streams`
+ * cannot be shared between workers.
+ */
+export interface StdioClientPoolConfig<P extends ProtocolMap = UntypedProtocol>
+  extends Omit<StdioClientConfig<P>, 'restart' | 'process' | 'streams'> {
+  /**
+   * Command each worker spawns
+   */
+  command: string;
+
+  /**
+   * Workers kept running at all times
+   * @default 1
+   */
+  minSize?: number;
+
+  /**
+   * Upper bound when scaling up under load
+   * @default minSize
+   */
+  maxSize?: number;
+
+  /**
+   * Request routing strategy
+   * @default 'least-pending'
+   */
+  strategy?: PoolStrategy;
+
+  /**
+   * Spawn another worker (up to `maxSize`) when every worker has at least this many
+   * requests in flight
+   * @default 1
+   */
+  scaleUpThreshold?: number;
+
+  /**
+   * Stop workers above `minSize` after this many milliseconds without requests
+   * @default 30000
+   */
+  idleTimeout?: number;
+
+  /**
+   * Replace workers that exit unexpectedly, with the backoff and budget of a restart
+   * policy. `false` leaves the pool smaller.
+   * @default true
+   */
+  replaceWorkers?: Omit<RestartPolicy, 'onRestart' | 'exitCodes'> | boolean;
+
+  /**
+   * Called for each new worker after it connects and before it receives requests,
+   * e.g. to run an initialization handshake. A rejection discards the worker.
+   */
+  onWorkerStart?: (client: StdioClient<P>) => Promise<void> | void;
+}
+
+/**
+ * Per-call options for `StdioClientPool.request()`
+ */
+export interface PoolRequestOptions extends RequestOptions {
+  /**
+   * Routing key for the `'sticky'` strategy
+   */
+  key?: string;
+}
+
+/**
+ * A snapshot of one pool worker
+ */
+export interface PoolWorkerInfo {
+  id: number;
+
+  /**
+   * `'starting'` until connected and `onWorkerStart` has run; `'draining'` while
+   * finishing in-flight requests before it is stopped
+   */
+  state: 'starting' | 'ready' | 'draining';
+
+  /**
+   * Requests in flight on this worker
+   */
+  pending: number;
+}
+
+/**
+ * Events emitted by StdioClientPool
+ */
+export interface StdioClientPoolEvents {
+  /**
+   * Emitted when a worker is ready to receive requests
+   */
+  workerStart: [workerId: number];
+
+  /**
+   * Emitted when a worker process exits, whether it crashed, was scaled down or was stopped
+   */
+  workerExit: [workerId: number, details: ProcessExitDetails];
+
+  /**
+   * Emitted when a worker receives a notification
+   */
+  notification: [method: string, params: unknown, workerId: number];
+
+  /**
+   * Emitted when a worker writes a log line
+   */
+  log: [message: string, info: LogInfo, workerId: number];
+
+  /**
+   * Emitted for worker errors, and for workers that could not be started or replaced
+   */
+  error: [error: Error, workerId: number | undefined];
+}
+
+/**
+ * Configuration for StdioServer
+ */
+export interface StdioServerConfig {
+  /**
+   * Stream messages are read from
+   * @default process.stdin
+   */
+  input?: NodeJS.ReadableStream;
+
+  /**
+   * Stream responses and outgoing messages are written to
+   * @default process.stdout
+   */
+  output?: NodeJS.WritableStream;
+
+  /**
+   * Message framing; must match the parent's `framing`
+   * @default 'newline'
+   */
+  framing?: StdioFraming;
+
+  /**
+   * Send `console.log`, `console.info`, `console.debug`, `console.dir` and `console.table`
+   * output to stderr while listening, so stray prints cannot corrupt the message stream
+   * @default true
+   */
+  redirectConsole?: boolean;
+
+  /**
+   * Timeout in milliseconds for requests sent to the parent
+   * @default 30000
+   */
+  requestTimeout?: number;
+
+  /**
+   * Largest incoming frame accepted, in bytes; larger frames are skipped and reported as
+   * `error` events
+   * @default 67108864 (64 MiB)
+   */
+  maxMessageBytes?: number;
+
+  /**
+   * Enable debug logging (to stderr)
+   * @default false
+   */
+  debug?: boolean;
+}
+
+/**
+ * Handler for a notification received by StdioServer
+ */
+export type NotificationHandler<TParams = unknown> = (params: TParams) => void | Promise<void>;
+
+/**
+ * Events emitted by StdioServer
+ */
+export interface StdioServerEvents {
+  /**
+   * Emitted for every notification from the parent, handled or not
+   */
+  notification: [method: string, params: unknown];
+
+  /**
+   * Emitted for malformed frames, failing notification handlers and write errors
+   */
+  error: [error: Error];
+
+  /**
+   * Emitted once the input stream has ended or `close()` was called
    */
-  log: [message: string];
+  close: [];
 }
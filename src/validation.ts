@@ -0,0 +1,249 @@
+import type {
+  JsonSchema,
+  StandardSchemaV1,
+  StandardSchemaV1Result,
+  ValidationIssue,
+  Validator,
+} from './types.js';
+
+/**
+ * Outcome of running a validator: the (possibly transformed) value, or the issues found
+ * @internal
+ */
+export type ValidationOutcome =
+  | { value: unknown; issues?: undefined }
+  | { issues: ValidationIssue[] };
+
+/**
+ * Run a Standard Schema or JSON Schema validator against a value
+ *
+ * Standard Schema validators may be async and may transform the value; JSON Schema
+ * validation is synchronous and returns the value unchanged.
+ * @internal
+ */
+export function runValidator(
+  validator: Validator,
+  value: unknown
+): ValidationOutcome | Promise<ValidationOutcome> {
+  if (isStandardSchema(validator)) {
+    const result = validator['~standard'].validate(value);
+    return result instanceof Promise ? result.then(fromStandardResult) : fromStandardResult(result);
+  }
+
+  const issues: ValidationIssue[] = [];
+  checkJsonSchema(validator, value, [], issues);
+  return issues.length > 0 ? { issues } : { value };
+}
+
+function isStandardSchema(validator: Validator): validator is StandardSchemaV1 {
+  return typeof validator['~standard'] === 'object' && validator['~standard'] !== null;
+}
+
+function fromStandardResult(result: StandardSchemaV1Result<unknown>): ValidationOutcome {
+  if (!result.issues) {
+    return { value: result.value };
+  }
+  return {
+    issues: result.issues.map((issue) => ({
+      message: issue.message,
+      path: (issue.path ?? []).map((segment) => {
+        const key = typeof segment === 'object' ? segment.key : segment;
+        return typeof key === 'number' ? key : String(key);
+      }),
+    })),
+  };
+}
+
+/**
+ * Validate against the commonly used subset of JSON Schema
+ *
+ * Supports `type`, `enum`, `const`, `properties`, `required`, `additionalProperties`,
+ * `items`, `anyOf`, `oneOf`, `allOf`, numeric/length/size bounds and `pattern`.
+ * Other keywords (including `$ref` and `format`) are ignored.
+ */
+function checkJsonSchema(
+  schema: JsonSchema | boolean,
+  value: unknown,
+  path: Array<string | number>,
+  issues: ValidationIssue[]
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    issues.push({ message: 'Value is not allowed', path });
+    return;
+  }
+
+  if (schema.type !== undefined && !matchesType(schema.type, value)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+    issues.push({ message: `Expected ${expected}, received ${typeName(value)}`, path });
+    return;
+  }
+  if (schema.enum && !schema.enum.some((option) => deepEqual(option, value))) {
+    issues.push({ message: `Expected one of ${JSON.stringify(schema.enum)}`, path });
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    issues.push({ message: `Expected ${JSON.stringify(schema.const)}`, path });
+  }
+
+  checkCombinators(schema, value, path, issues);
+
+  if (typeof value === 'number') {
+    checkNumber(schema, value, path, issues);
+  } else if (typeof value === 'string') {
+    checkString(schema, value, path, issues);
+  } else if (Array.isArray(value)) {
+    checkArray(schema, value, path, issues);
+  } else if (typeof value === 'object' && value !== null) {
+    checkObject(schema, value as Record<string, unknown>, path, issues);
+  }
+}
+
+function checkCombinators(
+  schema: JsonSchema,
+  value: unknown,
+  path: Array<string | number>,
+  issues: ValidationIssue[]
+): void {
+  for (const subschema of schema.allOf ?? []) {
+    checkJsonSchema(subschema, value, path, issues);
+  }
+
+  const matching = (subschemas: Array<JsonSchema | boolean>) =>
+    subschemas.filter((subschema) => {
+      const subIssues: ValidationIssue[] = [];
+      checkJsonSchema(subschema, value, path, subIssues);
+      return subIssues.length === 0;
+    }).length;
+
+  if (schema.anyOf && matching(schema.anyOf) === 0) {
+    issues.push({ message: 'Value does not match any of the allowed schemas', path });
+  }
+  if (schema.oneOf && matching(schema.oneOf) !== 1) {
+    issues.push({ message: 'Value must match exactly one of the allowed schemas', path });
+  }
+}
+
+function checkNumber(
+  schema: JsonSchema,
+  value: number,
+  path: Array<string | number>,
+  issues: ValidationIssue[]
+): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ message: `Expected a number >= ${schema.minimum}`, path });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    issues.push({ message: `Expected a number <= ${schema.maximum}`, path });
+  }
+}
+
+function checkString(
+  schema: JsonSchema,
+  value: string,
+  path: Array<string | number>,
+  issues: ValidationIssue[]
+): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ message: `Expected at least ${schema.minLength} characters`, path });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    issues.push({ message: `Expected at most ${schema.maxLength} characters`, path });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    issues.push({ message: `Expected a string matching ${schema.pattern}`, path });
+  }
+}
+
+function checkArray(
+  schema: JsonSchema,
+  value: unknown[],
+  path: Array<string | number>,
+  issues: ValidationIssue[]
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    issues.push({ message: `Expected at least ${schema.minItems} items`, path });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    issues.push({ message: `Expected at most ${schema.maxItems} items`, path });
+  }
+  if (schema.items !== undefined) {
+    const items = schema.items;
+    value.forEach((item, index) => checkJsonSchema(items, item, [...path, index], issues));
+  }
+}
+
+function checkObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: Array<string | number>,
+  issues: ValidationIssue[]
+): void {
+  for (const key of schema.required ?? []) {
+    if (!Object.hasOwn(value, key)) {
+      issues.push({ message: 'Required property is missing', path: [...path, key] });
+    }
+  }
+
+  const properties = schema.properties ?? {};
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertySchema = properties[key] ?? schema.additionalProperties;
+    if (propertySchema === undefined) continue;
+    if (propertySchema === false) {
+      issues.push({ message: 'Unexpected property', path: [...path, key] });
+      continue;
+    }
+    checkJsonSchema(propertySchema, propertyValue, [...path, key], issues);
+  }
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some((name) => {
+    switch (name) {
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'null':
+        return value === null;
+      case 'string':
+        return typeof value === 'string';
+      case 'boolean':
+        return typeof value === 'boolean';
+      default:
+        return false;
+    }
+  });
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Structural equality for JSON values; object key order does not matter
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => deepEqual(item, b[index]))
+    );
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every((key) => Object.hasOwn(right, key) && deepEqual(left[key], right[key]))
+  );
+}
@@ -1,8 +1,12 @@
+import { spawn } from 'node:child_process';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { StdioClient } from '../src/client.js';
-import { waitForEvent } from './helpers.js';
+import { ProcessExitedError, type ProtocolError, RequestCancelledError } from '../src/errors.js';
+import { StdioTransport } from '../src/transport.js';
+import type { ProcessExitDetails, StdioClientConfig } from '../src/types.js';
+import { delay, waitForEvent } from './helpers.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -40,6 +44,18 @@ describe('StdioClient', () => {
 
       expect(client).toBeInstanceOf(StdioClient);
     });
+
+    it('should reject env combined with the inherit strategy', () => {
+      expect(
+        () =>
+          new StdioClient({
+            command: 'node',
+            args: [echoServerPath],
+            env: { EXTRA: '1' },
+            envStrategy: 'inherit',
+          })
+      ).toThrow("env and envFile cannot be used with envStrategy 'inherit'");
+    });
   });
 
   describe('connect', () => {
@@ -69,6 +85,21 @@ describe('StdioClient', () => {
     });
   });
 
+  describe('adopted process', () => {
+    it('should send requests to a process spawned elsewhere and report its exit', async () => {
+      const child = spawn('node', [echoServerPath], { stdio: ['pipe', 'pipe', 'pipe'] });
+      client = new StdioClient({ process: child });
+      await client.connect();
+
+      expect(await client.request('echo', { value: 1 })).toEqual({ value: 1 });
+
+      const exit = waitForEvent<ProcessExitDetails>(client, 'exit');
+      child.kill('SIGTERM');
+      expect((await exit).pid).toBe(child.pid);
+      expect(client.isConnected()).toBe(false);
+    });
+  });
+
   describe('request', () => {
     beforeEach(async () => {
       client = new StdioClient({
@@ -138,127 +169,1156 @@ describe('StdioClient', () => {
     });
   });
 
-  describe('notify', () => {
-    beforeEach(async () => {
+  describe('cancellation', () => {
+    it('should reject with RequestCancelledError when aborted', async () => {
       client = new StdioClient({
         command: 'node',
         args: [echoServerPath],
       });
       await client.connect();
+
+      const controller = new AbortController();
+      const pending = client.request('slow', { ms: 1000 }, { signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+      await expect(pending).rejects.toMatchObject({ method: 'slow', id: expect.any(Number) });
     });
 
-    it('should send notification without waiting for response', () => {
-      expect(() => {
-        client.notify('ping');
-      }).not.toThrow();
+    it('should not send a request whose signal is already aborted', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+
+      const pending = client.request('ping', undefined, { signal: AbortSignal.abort() });
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(write).not.toHaveBeenCalled();
+      write.mockRestore();
     });
 
-    it('should send notification with params', () => {
-      expect(() => {
-        client.notify('log', { level: 'info', message: 'test' });
-      }).not.toThrow();
+    it('should only reject locally when no cancellation notification is configured', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+
+      const controller = new AbortController();
+      const pending = client.request('slow', { ms: 1000 }, { signal: controller.signal });
+      controller.abort();
+      await pending.catch(() => {});
+
+      expect(write).toHaveBeenCalledTimes(1);
+      write.mockRestore();
     });
-  });
 
-  describe('notifications from server', () => {
-    beforeEach(async () => {
+    it('should send $/cancelRequest with the lsp preset', async () => {
       client = new StdioClient({
         command: 'node',
         args: [echoServerPath],
+        cancellation: 'lsp',
       });
       await client.connect();
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+
+      const controller = new AbortController();
+      const pending = client.request('slow', { ms: 1000 }, { signal: controller.signal });
+      controller.abort();
+      const error = (await pending.catch((e) => e)) as RequestCancelledError;
+
+      expect(JSON.parse(write.mock.calls[1]?.[0] as string)).toEqual({
+        jsonrpc: '2.0',
+        method: '$/cancelRequest',
+        params: { id: error.id },
+      });
+      write.mockRestore();
     });
 
-    it('should receive notifications from server', async () => {
-      const notificationPromise = waitForEvent<{ method: string; params?: unknown }>(
-        client,
-        'notification',
-        3000
-      );
+    it('should send notifications/cancelled with the mcp preset', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        cancellation: 'mcp',
+      });
+      await client.connect();
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
 
-      // Request that triggers a notification
-      await client.request('notify');
+      const controller = new AbortController();
+      const pending = client.request('slow', { ms: 1000 }, { signal: controller.signal });
+      controller.abort('User requested');
+      const error = (await pending.catch((e) => e)) as RequestCancelledError;
 
-      const notification = await notificationPromise;
-      expect(notification).toBeDefined();
+      expect(error.reason).toBe('User requested');
+      expect(JSON.parse(write.mock.calls[1]?.[0] as string)).toEqual({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId: error.id, reason: 'User requested' },
+      });
+      write.mockRestore();
+    });
+
+    it('should ignore an abort after the response arrived', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        cancellation: 'lsp',
+      });
+      await client.connect();
+
+      const controller = new AbortController();
+      const result = await client.request('ping', undefined, { signal: controller.signal });
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+      controller.abort();
+
+      expect(result).toBe('pong');
+      expect(write).not.toHaveBeenCalled();
+      write.mockRestore();
     });
   });
 
-  describe('disconnect', () => {
-    it('should disconnect cleanly', async () => {
+  describe('request options', () => {
+    it('should use a per-call timeout', async () => {
       client = new StdioClient({
         command: 'node',
         args: [echoServerPath],
+        requestTimeout: 10000,
       });
+      await client.connect();
+
+      await expect(client.request('slow', { ms: 1000 }, { timeout: 50 })).rejects.toThrow(
+        'Request timeout after 50ms: slow'
+      );
+    });
 
+    it('should allow a per-call timeout longer than requestTimeout', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        requestTimeout: 50,
+      });
       await client.connect();
-      expect(client.isConnected()).toBe(true);
 
-      await client.disconnect();
-      expect(client.isConnected()).toBe(false);
+      await expect(client.request('slow', { ms: 150 }, { timeout: 1000 })).resolves.toEqual({
+        ms: 150,
+      });
     });
 
-    it('should emit disconnected event', async () => {
+    it('should send a custom request id', async () => {
       client = new StdioClient({
         command: 'node',
         args: [echoServerPath],
       });
+      await client.connect();
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+
+      const result = await client.request('ping', undefined, { id: 'custom-1' });
+
+      expect(result).toBe('pong');
+      expect(JSON.parse(write.mock.calls[0]?.[0] as string)).toMatchObject({ id: 'custom-1' });
+      write.mockRestore();
+    });
 
+    it('should reject a custom id that is already in flight', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
       await client.connect();
 
-      const disconnectedPromise = waitForEvent(client, 'disconnected', 2000);
-      await client.disconnect();
-      await disconnectedPromise;
+      const first = client.request('slow', { ms: 100 }, { id: 'dup' });
+
+      await expect(client.request('ping', undefined, { id: 'dup' })).rejects.toThrow(
+        'Duplicate request id: dup'
+      );
+      await expect(first).resolves.toEqual({ ms: 100 });
     });
 
-    it('should be safe to disconnect when not connected', async () => {
+    it('should report MCP progress to the callback', async () => {
       client = new StdioClient({
         command: 'node',
         args: [echoServerPath],
       });
+      await client.connect();
 
-      await expect(client.disconnect()).resolves.toBeUndefined();
+      const updates: unknown[] = [];
+      const result = await client.request(
+        'progress',
+        { name: 'build' },
+        { onProgress: (progress) => updates.push(progress) }
+      );
+
+      expect(result).toEqual({ done: true });
+      expect(updates).toEqual([
+        { progress: 1, total: 3 },
+        { progress: 2, total: 3 },
+        { progress: 3, total: 3 },
+      ]);
+    });
+
+    it('should report LSP progress to the callback', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        progress: 'lsp',
+      });
+      await client.connect();
+
+      const updates: unknown[] = [];
+      await client.request('progress', {}, { onProgress: (progress) => updates.push(progress) });
+
+      expect(updates).toEqual([
+        { kind: 'report', percentage: 33 },
+        { kind: 'report', percentage: 66 },
+        { kind: 'report', percentage: 99 },
+      ]);
+    });
+
+    it('should keep the existing two-argument signature', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+
+      await expect(client.request('echo', { a: 1 })).resolves.toEqual({ a: 1 });
     });
   });
 
-  describe('error handling', () => {
-    it('should emit error on connection failure', async () => {
+  describe('batch', () => {
+    beforeEach(async () => {
       client = new StdioClient({
-        command: 'nonexistent-command-xyz',
-        args: [],
+        command: 'node',
+        args: [echoServerPath],
       });
+      await client.connect();
+    });
 
-      await expect(client.connect()).rejects.toThrow();
+    it('should send entries as one array message', async () => {
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+
+      await client.batch([{ method: 'ping' }, { method: 'log', notification: true }]);
+
+      expect(write).toHaveBeenCalledTimes(1);
+      const sent = JSON.parse(write.mock.calls[0]?.[0] as string);
+      expect(sent).toEqual([
+        { jsonrpc: '2.0', id: expect.any(Number), method: 'ping' },
+        { jsonrpc: '2.0', method: 'log' },
+      ]);
+      write.mockRestore();
     });
 
-    it('should handle process crashes gracefully', async () => {
+    it('should resolve results in entry order when responses arrive out of order', async () => {
+      const results = await client.batch([
+        { method: 'add', params: { a: 1, b: 2 } },
+        { method: 'subtract', params: { a: 10, b: 3 } },
+        { method: 'ping' },
+      ]);
+
+      expect(results).toEqual([
+        [null, { sum: 3 }],
+        [null, { difference: 7 }],
+        [null, 'pong'],
+      ]);
+    });
+
+    it('should report per-entry errors without failing the batch', async () => {
+      const results = await client.batch([
+        { method: 'ping' },
+        { method: 'error' },
+        { method: 'nonexistent' },
+      ]);
+
+      expect(results[0]).toEqual([null, 'pong']);
+      expect(results[1]?.[0]).toMatchObject({ code: -32000 });
+      expect(results[2]?.[0]).toMatchObject({ code: -32601, message: 'Method not found' });
+    });
+
+    it('should resolve notifications to an empty result', async () => {
+      const results = await client.batch([
+        { method: 'log', params: { message: 'hi' }, notification: true },
+        { method: 'ping' },
+      ]);
+
+      expect(results).toEqual([
+        [null, undefined],
+        [null, 'pong'],
+      ]);
+    });
+
+    it('should time out entries that never get a response', async () => {
+      const results = await client.batch(
+        [{ method: 'ping' }, { method: 'slow', params: { ms: 2000 } }],
+        { timeout: 500 }
+      );
+
+      expect(results[0]).toEqual([null, 'pong']);
+      expect(results[1]?.[0]?.message).toContain('Request timeout after 500ms: slow');
+    });
+
+    it('should fail unanswered entries with an error response without id', async () => {
+      const results = await client.batch([
+        { method: 'ping' },
+        { method: 'invalidRequest' },
+        { method: 'add', params: { a: 1, b: 2 } },
+      ]);
+
+      expect(results[0]).toEqual([null, 'pong']);
+      expect(results[1]?.[0]).toMatchObject({ code: -32600, message: 'Invalid Request' });
+      expect(results[2]).toEqual([null, { sum: 3 }]);
+    });
+
+    it('should fail the whole batch when the server rejects it without id', async () => {
+      const server = `
+        require('node:readline').createInterface({ input: process.stdin }).on('line', () => {
+          const error = { code: -32600, message: 'Batches are not supported' };
+          console.log(JSON.stringify({ jsonrpc: '2.0', id: null, error }));
+        });
+      `;
+      await client.disconnect();
+      client = new StdioClient({ command: 'node', args: ['--input-type=commonjs', '-e', server] });
+      await client.connect();
+
+      const results = await client.batch([{ method: 'ping' }, { method: 'ping' }], {
+        timeout: 2000,
+      });
+
+      expect(results.map(([error]) => error)).toEqual([
+        expect.objectContaining({ code: -32600, message: 'Batches are not supported' }),
+        expect.objectContaining({ code: -32600, message: 'Batches are not supported' }),
+      ]);
+    });
+
+    it('should resolve an empty batch without sending anything', async () => {
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+
+      await expect(client.batch([])).resolves.toEqual([]);
+      expect(write).not.toHaveBeenCalled();
+      write.mockRestore();
+    });
+  });
+
+  describe('request queue', () => {
+    function createQueuedClient(config: Partial<StdioClientConfig> = {}): StdioClient {
       client = new StdioClient({
         command: 'node',
-        args: ['-e', 'setTimeout(() => process.exit(1), 100)'],
+        args: [echoServerPath],
+        maxConcurrentRequests: 1,
+        ...config,
       });
+      return client;
+    }
 
-      const errorPromise = waitForEvent(client, 'disconnected', 3000);
+    it('should hold requests beyond maxConcurrentRequests until a slot frees', async () => {
+      createQueuedClient({ maxConcurrentRequests: 2 });
       await client.connect();
-      await errorPromise;
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
 
-      expect(client.isConnected()).toBe(false);
+      const requests = [1, 2, 3].map((n) => client.request('slow', { ms: 50, n }));
+
+      expect(write).toHaveBeenCalledTimes(2);
+      expect(client.stats()).toEqual({
+        inFlight: 2,
+        queued: 1,
+        awaitingConnection: 0,
+        maxConcurrentRequests: 2,
+      });
+
+      expect(await Promise.all(requests)).toEqual([
+        { ms: 50, n: 1 },
+        { ms: 50, n: 2 },
+        { ms: 50, n: 3 },
+      ]);
+      expect(write).toHaveBeenCalledTimes(3);
+      expect(client.stats()).toEqual({
+        inFlight: 0,
+        queued: 0,
+        awaitingConnection: 0,
+        maxConcurrentRequests: 2,
+      });
+      write.mockRestore();
+    });
+
+    it('should send queued requests by priority, then in call order', async () => {
+      createQueuedClient();
+      await client.connect();
+      const order: string[] = [];
+      const track = (name: string, priority?: number) =>
+        client
+          .request('echo', name, priority === undefined ? {} : { priority })
+          .then(() => order.push(name));
+
+      await Promise.all([
+        track('first'),
+        track('low-1'),
+        track('low-2'),
+        track('high', 5),
+        track('negative', -1),
+      ]);
+
+      expect(order).toEqual(['first', 'high', 'low-1', 'low-2', 'negative']);
+    });
+
+    it('should reject requests once the queue is full', async () => {
+      createQueuedClient({ requestQueue: { maxLength: 1 } });
+      await client.connect();
+
+      const running = client.request('slow', { ms: 50 });
+      const queued = client.request('echo', 'queued');
+
+      await expect(client.request('echo', 'overflow')).rejects.toThrow(
+        'Request queue is full (1): echo'
+      );
+      await expect(queued).resolves.toBe('queued');
+      await running;
+    });
+
+    it('should reject requests that wait longer than the queue timeout', async () => {
+      createQueuedClient({ requestQueue: { timeout: 30 } });
+      await client.connect();
+
+      const running = client.request('slow', { ms: 200 });
+
+      await expect(client.request('echo', 'late')).rejects.toThrow(
+        'Request waited more than 30ms in the queue: echo'
+      );
+      expect(client.stats().queued).toBe(0);
+      await running;
+    });
+
+    it('should remove aborted requests from the queue without sending them', async () => {
+      createQueuedClient();
+      await client.connect();
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+      const controller = new AbortController();
+
+      const running = client.request('slow', { ms: 50 });
+      const aborted = client.request('echo', 'x', { signal: controller.signal });
+      controller.abort();
+
+      await expect(aborted).rejects.toBeInstanceOf(RequestCancelledError);
+      await running;
+      expect(write).toHaveBeenCalledTimes(1);
+      write.mockRestore();
+    });
+
+    it('should queue batches as one request', async () => {
+      createQueuedClient();
+      await client.connect();
+
+      const running = client.request('slow', { ms: 200 });
+      const batch = client.batch([{ method: 'ping' }, { method: 'ping' }]);
+      await delay(20);
+      expect(client.stats()).toMatchObject({ inFlight: 1, queued: 1 });
+
+      expect(await batch).toEqual([
+        [null, 'pong'],
+        [null, 'pong'],
+      ]);
+      await running;
+    });
+
+    it('should reject queued requests on disconnect', async () => {
+      createQueuedClient();
+      await client.connect();
+
+      const running = client.request('slow', { ms: 1000 });
+      const queued = expect(client.request('echo', 'x')).rejects.toThrow(
+        'Client disconnected before the request was sent'
+      );
+      running.catch(() => {});
+      await client.disconnect();
+
+      await queued;
+      expect(client.stats()).toMatchObject({ inFlight: 0, queued: 0 });
     });
   });
 
-  describe('server logs', () => {
-    it('should capture server stderr output', async () => {
+  describe('queueing while disconnected', () => {
+    it('should send calls made before connect() in call order once connected', async () => {
       client = new StdioClient({
         command: 'node',
         args: [echoServerPath],
-        debug: true,
+        queueWhileDisconnected: true,
       });
+      const write = vi.spyOn(StdioTransport.prototype, 'write');
+
+      const first = client.request('echo', 'first');
+      client.notify('log', { message: 'between' });
+      const second = client.request('echo', 'second');
+      expect(client.stats().awaitingConnection).toBe(3);
 
-      const logPromise = waitForEvent<string>(client, 'log', 3000);
       await client.connect();
 
-      const logMessage = await logPromise;
-      expect(logMessage).toBeTruthy();
-      expect(typeof logMessage).toBe('string');
+      expect(await Promise.all([first, second])).toEqual(['first', 'second']);
+      const sent = write.mock.calls.map((call) => JSON.parse(call[0] as string));
+      expect(sent.map((message) => message.params)).toEqual([
+        'first',
+        { message: 'between' },
+        'second',
+      ]);
+      expect(client.stats().awaitingConnection).toBe(0);
+      write.mockRestore();
+    });
+
+    it('should hold calls made after the process died until it reconnects', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        queueWhileDisconnected: true,
+      });
+      await client.connect();
+      const disconnected = waitForEvent(client, 'disconnected');
+      await client.request('exit', { code: 1 }).catch(() => {});
+      await disconnected;
+
+      const held = client.request('ping');
+      await client.connect();
+
+      await expect(held).resolves.toBe('pong');
+    });
+
+    it('should reject calls that wait longer than the timeout', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        queueWhileDisconnected: { timeout: 30 },
+      });
+
+      await expect(client.request('ping')).rejects.toThrow(
+        'Call waited more than 30ms for a connection: ping'
+      );
+      expect(client.stats().awaitingConnection).toBe(0);
+    });
+
+    it('should reject calls beyond maxLength', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        queueWhileDisconnected: { maxLength: 1 },
+      });
+
+      const held = client.request('ping');
+      await expect(client.batch([{ method: 'ping' }])).rejects.toThrow(
+        'Too many calls waiting for a connection (1): batch'
+      );
+
+      await client.connect();
+      await expect(held).resolves.toBe('pong');
+    });
+
+    it('should reject held calls when connect() fails', async () => {
+      client = new StdioClient({
+        command: 'nonexistent-command-xyz',
+        queueWhileDisconnected: true,
+      });
+
+      const held = client.request('ping');
+      const connecting = client.connect();
+
+      await expect(held).rejects.toThrow();
+      await expect(connecting).rejects.toThrow();
+    });
+
+    it('should still fail fast without the option', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+
+      await expect(client.request('ping')).rejects.toThrow('Not connected');
+    });
+  });
+
+  describe('autoConnect', () => {
+    it('should spawn the process on the first request', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        autoConnect: true,
+      });
+
+      const results = await Promise.all([client.request('ping'), client.request('echo', 1)]);
+
+      expect(results).toEqual(['pong', 1]);
+      expect(client.isConnected()).toBe(true);
+    });
+
+    it('should reject the request when the process cannot be spawned', async () => {
+      client = new StdioClient({
+        command: 'nonexistent-command-xyz',
+        autoConnect: true,
+      });
+
+      await expect(client.request('ping')).rejects.toThrow();
+      expect(client.isConnected()).toBe(false);
+    });
+  });
+
+  describe('write failures', () => {
+    // A server that never reads stdin, so writes back up
+    const idleServer = ['-e', 'setInterval(() => {}, 1000)'];
+
+    it('should reject the request whose write overflowed the queue', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: idleServer,
+        requestTimeout: 500,
+        writeQueue: { highWaterMark: 1024, overflow: 'reject' },
+      });
+      await client.connect();
+
+      const first = client.request('big', { data: 'x'.repeat(256 * 1024) });
+      const second = client.request('big', { data: 'x'.repeat(2048) });
+
+      await expect(second).rejects.toThrow('Write queue full');
+      await expect(first).rejects.toThrow('Request timeout');
+    });
+
+    it('should reject a queued request when the process exits before it is written', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: ['-e', 'setTimeout(() => process.exit(0), 300)'],
+      });
+      await client.connect();
+
+      const first = client.request('big', { data: 'x'.repeat(256 * 1024) });
+      const second = client.request('ping');
+
+      const [firstResult, secondResult] = await Promise.allSettled([first, second]);
+      expect(firstResult.status).toBe('rejected');
+      expect(secondResult).toMatchObject({
+        status: 'rejected',
+        reason: { message: expect.stringMatching(/exited|Connection closed/) },
+      });
+    });
+  });
+
+  describe('notify', () => {
+    beforeEach(async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+    });
+
+    it('should send notification without waiting for response', () => {
+      expect(() => {
+        client.notify('ping');
+      }).not.toThrow();
+    });
+
+    it('should send notification with params', () => {
+      expect(() => {
+        client.notify('log', { level: 'info', message: 'test' });
+      }).not.toThrow();
+    });
+  });
+
+  describe('notifications from server', () => {
+    beforeEach(async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+    });
+
+    it('should receive notifications from server', async () => {
+      const notificationPromise = waitForEvent<{ method: string; params?: unknown }>(
+        client,
+        'notification',
+        3000
+      );
+
+      // Request that triggers a notification
+      await client.request('notify');
+
+      const notification = await notificationPromise;
+      expect(notification).toBeDefined();
+    });
+  });
+
+  describe('server-to-client requests', () => {
+    beforeEach(async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+    });
+
+    it('should answer server requests with the handler result', async () => {
+      client.onRequest('roots/list', () => ({ roots: [{ uri: 'file:///workspace' }] }));
+
+      const result = await client.request('callClient', { method: 'roots/list' });
+
+      expect(result).toEqual({ roots: [{ uri: 'file:///workspace' }] });
+    });
+
+    it('should pass params and context to the handler', async () => {
+      const calls: Array<{ params: unknown; method: string }> = [];
+      client.onRequest('workspace/configuration', (params, context) => {
+        calls.push({ params, method: context.method });
+        return [{}];
+      });
+
+      await client.request('callClient', {
+        method: 'workspace/configuration',
+        params: { items: [{ section: 'python' }] },
+      });
+
+      expect(calls).toEqual([
+        { params: { items: [{ section: 'python' }] }, method: 'workspace/configuration' },
+      ]);
+    });
+
+    it('should support async handlers', async () => {
+      client.onRequest('sampling/createMessage', async () => {
+        await delay(50);
+        return { content: { type: 'text', text: 'hi' } };
+      });
+
+      const result = await client.request('callClient', { method: 'sampling/createMessage' });
+
+      expect(result).toEqual({ content: { type: 'text', text: 'hi' } });
+    });
+
+    it('should respond with method not found for unregistered methods', async () => {
+      try {
+        await client.request('callClient', { method: 'window/showMessageRequest' });
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).toHaveProperty('code', -32601);
+        expect(error).toHaveProperty('message', 'Method not found');
+      }
+    });
+
+    it('should send thrown errors with their code', async () => {
+      client.onRequest('roots/list', () => {
+        throw Object.assign(new Error('No roots'), { code: -32002 });
+      });
+
+      try {
+        await client.request('callClient', { method: 'roots/list' });
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).toHaveProperty('code', -32002);
+        expect(error).toHaveProperty('message', 'No roots');
+      }
+    });
+
+    it('should report unexpected handler failures as internal errors', async () => {
+      client.onRequest('roots/list', async () => {
+        throw new Error('boom');
+      });
+
+      try {
+        await client.request('callClient', { method: 'roots/list' });
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).toHaveProperty('code', -32603);
+        expect(error).toHaveProperty('message', 'boom');
+      }
+    });
+
+    it('should stop dispatching after the handler is removed', async () => {
+      const dispose = client.onRequest('roots/list', () => ({ roots: [] }));
+      dispose();
+
+      await expect(client.request('callClient', { method: 'roots/list' })).rejects.toThrow(
+        'Method not found'
+      );
+    });
+
+    it('should not emit server requests as notifications', async () => {
+      const notifications: string[] = [];
+      client.on('notification', (method) => notifications.push(method));
+      client.onRequest('roots/list', () => ({ roots: [] }));
+
+      await client.request('callClient', { method: 'roots/list' });
+
+      expect(notifications).toEqual([]);
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should disconnect cleanly', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+
+      await client.connect();
+      expect(client.isConnected()).toBe(true);
+
+      await client.disconnect();
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should emit disconnected event', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+
+      await client.connect();
+
+      const disconnectedPromise = waitForEvent(client, 'disconnected', 2000);
+      await client.disconnect();
+      await disconnectedPromise;
+    });
+
+    it('should be safe to disconnect when not connected', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+
+      await expect(client.disconnect()).resolves.toBeUndefined();
+    });
+
+    it('should send the shutdown request and exit notification before stopping', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        // echo-server answers 'ping' and exits with code 1 on an 'exit' notification
+        shutdown: { request: 'ping', notification: 'exit' },
+      });
+      await client.connect();
+
+      const exitInfo = await client.disconnect();
+
+      expect(exitInfo).toEqual({ code: 1, signal: null });
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should still stop the process when the shutdown request fails', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        shutdown: { request: 'nonexistent' },
+      });
+      await client.connect();
+
+      const exitInfo = await client.disconnect();
+
+      expect(exitInfo).toEqual({ code: 0, signal: null });
+    });
+  });
+
+  describe('error handling', () => {
+    it('should emit error on connection failure', async () => {
+      client = new StdioClient({
+        command: 'nonexistent-command-xyz',
+        args: [],
+      });
+
+      await expect(client.connect()).rejects.toThrow();
+    });
+
+    it('should handle process crashes gracefully', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: ['-e', 'setTimeout(() => process.exit(1), 100)'],
+      });
+
+      const errorPromise = waitForEvent(client, 'disconnected', 3000);
+      await client.connect();
+      await errorPromise;
+
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should emit protocolError for non-JSON output and keep serving requests', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+
+      const protocolError = waitForEvent<ProtocolError>(client, 'protocolError', 2000);
+
+      await expect(client.request('raw', { text: 'Downloading...\n' })).resolves.toBe('written');
+      await expect(protocolError).resolves.toMatchObject({
+        reason: 'invalid-json',
+        snippet: 'Downloading...',
+      });
+      await expect(client.request('ping')).resolves.toBe('pong');
+    });
+
+    it('should route stdout noise to log events with stdoutNoise log', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        stdoutNoise: 'log',
+      });
+      await client.connect();
+
+      const logs: unknown[][] = [];
+      client.on('log', (...args: unknown[]) => logs.push(args));
+
+      await expect(client.request('raw', { text: 'Downloading...\n' })).resolves.toBe('written');
+      expect(logs).toContainEqual(['Downloading...', { stream: 'stdout' }]);
+    });
+
+    it('should reject pending requests when killed for an oversized message', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        maxMessageBytes: 1024,
+        oversizePolicy: 'kill',
+      });
+      await client.connect();
+
+      await expect(client.request('echo', { data: 'x'.repeat(4096) })).rejects.toMatchObject({
+        name: 'ProcessExitedError',
+        signal: 'SIGKILL',
+      });
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should reject in-flight requests with ProcessExitedError when the process dies', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+
+      const exitEvent = waitForEvent<ProcessExitDetails>(client, 'exit', 3000);
+      const pending = client.request('slow', { ms: 5000 });
+      await delay(100);
+      client.notify('exit', { code: 3 });
+
+      const error = await pending.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(ProcessExitedError);
+      expect(error).toMatchObject({ code: 3, signal: null });
+      expect((error as ProcessExitedError).message).toMatch(
+        /^Process \d+ exited with code 3 before response to slow$/
+      );
+      expect((error as ProcessExitedError).pid).toBeGreaterThan(0);
+      expect((error as ProcessExitedError).uptime).toBeGreaterThanOrEqual(100);
+      expect((error as ProcessExitedError).stderr).toContain(
+        '[echo-server] Received request: slow'
+      );
+
+      const details = await exitEvent;
+      expect(details).toMatchObject({
+        code: 3,
+        signal: null,
+        pid: (error as ProcessExitedError).pid,
+      });
+    });
+
+    it('should emit exit but reject with a plain error on an explicit disconnect', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await client.connect();
+
+      const exitEvent = waitForEvent<ProcessExitDetails>(client, 'exit', 3000);
+      const pending = client.request('slow', { ms: 5000 });
+      await client.disconnect();
+
+      await expect(pending).rejects.toThrow('Connection closed before response to slow');
+      await expect(exitEvent).resolves.toMatchObject({ code: 0 });
+    });
+  });
+
+  describe('restart', () => {
+    it('should respawn the process after an unexpected exit', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        restart: { initialDelay: 10 },
+      });
+      await client.connect();
+
+      const restartingPromise = waitForEvent(client, 'restarting', 3000);
+      const restartedPromise = waitForEvent(client, 'restarted', 3000);
+      client.request('exit', { code: 1 }).catch(() => {});
+
+      expect(await restartingPromise).toMatchObject({ attempt: 1, code: 1 });
+      expect(await restartedPromise).toEqual({ attempt: 1 });
+      expect(client.isConnected()).toBe(true);
+      await expect(client.request('ping')).resolves.toBe('pong');
+    });
+
+    it('should run the restart hook before releasing queued requests', async () => {
+      const order: string[] = [];
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        restart: {
+          initialDelay: 50,
+          onRestart: async (restartedClient) => {
+            await restartedClient.request('echo', { step: 'handshake' });
+            order.push('handshake');
+          },
+        },
+      });
+      await client.connect();
+
+      const restartingPromise = waitForEvent(client, 'restarting', 3000);
+      client.request('exit', { code: 1 }).catch(() => {});
+      await restartingPromise;
+
+      const queued = client.request('ping').then((result) => {
+        order.push('queued');
+        return result;
+      });
+
+      await expect(queued).resolves.toBe('pong');
+      expect(order).toEqual(['handshake', 'queued']);
+    });
+
+    it('should hold notifications sent during a restart until it has finished', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        restart: { initialDelay: 50 },
+      });
+      await client.connect();
+      const errors: Error[] = [];
+      client.on('error', (error) => errors.push(error));
+
+      const restartingPromise = waitForEvent(client, 'restarting', 3000);
+      client.request('exit', { code: 1 }).catch(() => {});
+      await restartingPromise;
+
+      // The fixture answers a `notify` notification with a notification of its own
+      const answered = waitForEvent<string>(client, 'notification', 3000);
+      client.notify('notify');
+
+      expect(await answered).toBe('testNotification');
+      expect(errors).toEqual([]);
+    });
+
+    it('should only let the restart hook itself skip the restart gate', async () => {
+      const order: string[] = [];
+      let hookStarted!: () => void;
+      const hookStartedPromise = new Promise<void>((resolve) => {
+        hookStarted = resolve;
+      });
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        restart: {
+          initialDelay: 10,
+          onRestart: async (restartedClient) => {
+            hookStarted();
+            await delay(50);
+            await restartedClient.request('echo', 'handshake');
+            order.push('handshake');
+          },
+        },
+      });
+      await client.connect();
+
+      client.request('exit', { code: 1 }).catch(() => {});
+      await hookStartedPromise;
+      // Sent by another caller while the hook runs, so it waits for the hook to finish
+      await client.request('ping');
+      order.push('other');
+
+      expect(order).toEqual(['handshake', 'other']);
+    });
+
+    it('should give up after exhausting the restart budget', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: ['-e', 'setTimeout(() => process.exit(1), 150)'],
+        restart: { maxRestarts: 2, initialDelay: 10 },
+      });
+
+      const attempts: number[] = [];
+      client.on('restarting', (info) => attempts.push(info.attempt));
+      const gaveUpPromise = waitForEvent<Error>(client, 'gaveUp', 5000);
+
+      await client.connect();
+      const error = await gaveUpPromise;
+
+      expect(attempts).toEqual([1, 2]);
+      expect(error.message).toContain('restart limit');
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should not restart on exit codes outside the filter', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        restart: { initialDelay: 10, exitCodes: [1] },
+      });
+      await client.connect();
+
+      const restarting = vi.fn();
+      client.on('restarting', restarting);
+      const disconnectedPromise = waitForEvent(client, 'disconnected', 3000);
+      client.request('exit', { code: 0 }).catch(() => {});
+      await disconnectedPromise;
+      await delay(100);
+
+      expect(restarting).not.toHaveBeenCalled();
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should not restart after an explicit disconnect', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        restart: { initialDelay: 10 },
+      });
+      await client.connect();
+
+      const restarting = vi.fn();
+      client.on('restarting', restarting);
+      await client.disconnect();
+      await delay(200);
+
+      expect(restarting).not.toHaveBeenCalled();
+      expect(client.isConnected()).toBe(false);
+    });
+  });
+
+  describe('server logs', () => {
+    it('should capture server stderr output', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        debug: true,
+      });
+
+      const logPromise = waitForEvent<string>(client, 'log', 3000);
+      await client.connect();
+
+      const logMessage = await logPromise;
+      expect(logMessage).toBeTruthy();
+      expect(typeof logMessage).toBe('string');
+    });
+
+    it('should keep recent stderr lines after the process exits', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [
+          '-e',
+          "console.error('starting'); setTimeout(() => { console.error('fatal: out of cheese'); process.exit(1); }, 100)",
+        ],
+      });
+
+      const disconnected = waitForEvent(client, 'disconnected', 3000);
+      await client.connect();
+      await disconnected;
+
+      expect(client.getRecentLogs()).toEqual([
+        { message: 'starting', stream: 'stderr' },
+        { message: 'fatal: out of cheese', stream: 'stderr' },
+      ]);
     });
   });
 });
@@ -0,0 +1,172 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createRedactor,
+  defaultEnvStrategy,
+  parseEnvFile,
+  resolveEnv,
+  validateEnvOptions,
+} from '../src/env.js';
+
+describe('parseEnvFile', () => {
+  it('should parse assignments, quotes, comments and export prefixes', () => {
+    const text = [
+      '# comment',
+      '',
+      'PLAIN=value',
+      'SPACED = spaced value  # trailing comment',
+      'export EXPORTED=1',
+      "SINGLE='literal \\n # not a comment'",
+      'DOUBLE="line\\nbreak \\"quoted\\""',
+      'MULTI="first',
+      'second"',
+      'EMPTY=',
+      'not an assignment',
+      'PLAIN=overridden',
+    ].join('\n');
+
+    expect(parseEnvFile(text)).toEqual({
+      PLAIN: 'overridden',
+      SPACED: 'spaced value',
+      EXPORTED: '1',
+      SINGLE: 'literal \\n # not a comment',
+      DOUBLE: 'line\nbreak "quoted"',
+      MULTI: 'first\nsecond',
+      EMPTY: '',
+    });
+  });
+
+  it('should only treat # as a comment after whitespace in unquoted values', () => {
+    const text = [
+      'URL=http://x/#frag',
+      'PASS=ab#cd',
+      'HASH=#value',
+      'BLANK= # only a comment',
+      'TRAILING=ab#cd # comment',
+      'QUOTED="a # b" # comment',
+      "SINGLE='c#d'# comment",
+    ].join('\n');
+
+    expect(parseEnvFile(text)).toEqual({
+      URL: 'http://x/#frag',
+      PASS: 'ab#cd',
+      HASH: '#value',
+      BLANK: '',
+      TRAILING: 'ab#cd',
+      QUOTED: 'a # b',
+      SINGLE: 'c#d',
+    });
+  });
+
+  it('should handle CRLF line endings', () => {
+    expect(parseEnvFile('A=1\r\nB="2"\r\n')).toEqual({ A: '1', B: '2' });
+  });
+});
+
+describe('resolveEnv', () => {
+  const parent = { PATH: '/usr/bin', HOME: '/home/me', LC_ALL: 'C', SECRET: 'parent' };
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'stdio-env-'));
+    writeFileSync(join(dir, '.env'), 'FROM_FILE=1\nSHARED=file\n');
+    writeFileSync(join(dir, '.env.local'), 'SHARED=local\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function resolve(options: Partial<Parameters<typeof resolveEnv>[0]>) {
+    return resolveEnv(
+      { env: {}, envFile: [], envStrategy: 'replace', cwd: dir, ...options },
+      parent
+    );
+  }
+
+  it('should default to inherit without env and to replace with it', () => {
+    expect(defaultEnvStrategy(undefined, undefined)).toBe('inherit');
+    expect(defaultEnvStrategy({ A: '1' }, undefined)).toBe('replace');
+    expect(defaultEnvStrategy(undefined, '.env')).toBe('replace');
+  });
+
+  it('should build the environment per strategy', () => {
+    expect(resolve({ envStrategy: 'inherit' })).toBe(parent);
+    expect(resolve({ env: { A: '1' } })).toEqual({ A: '1' });
+    expect(resolve({ envStrategy: 'merge', env: { HOME: '/tmp' } })).toEqual({
+      ...parent,
+      HOME: '/tmp',
+    });
+    expect(resolve({ envStrategy: { inherit: ['PATH', /^LC_/] }, env: { A: '1' } })).toEqual({
+      PATH: '/usr/bin',
+      LC_ALL: 'C',
+      A: '1',
+    });
+  });
+
+  it('should match every allowlisted variable with global or sticky patterns', () => {
+    const env = resolve({ envStrategy: { inherit: [/^(PATH|HOME|LC_ALL)$/g] } });
+
+    expect(env).toEqual({ PATH: '/usr/bin', HOME: '/home/me', LC_ALL: 'C' });
+  });
+
+  it('should load env files relative to cwd, with env taking precedence', () => {
+    expect(
+      resolve({ envFile: ['.env', join(dir, '.env.local')], env: { FROM_FILE: 'env' } })
+    ).toEqual({ FROM_FILE: 'env', SHARED: 'local' });
+    expect(() => resolve({ envFile: 'missing.env' })).toThrow(
+      `Cannot read env file ${join(dir, 'missing.env')}`
+    );
+  });
+
+  it('should reject env with the inherit strategy', () => {
+    expect(() =>
+      validateEnvOptions({ env: { A: '1' }, envFile: [], envStrategy: 'inherit' })
+    ).toThrow("env and envFile cannot be used with envStrategy 'inherit'");
+    expect(() => validateEnvOptions({ env: {}, envFile: '.env', envStrategy: 'inherit' })).toThrow(
+      "env and envFile cannot be used with envStrategy 'inherit'"
+    );
+  });
+});
+
+describe('createRedactor', () => {
+  const env = {
+    GITHUB_TOKEN: 'ghp_abcdef',
+    DB_PASSWORD: 'hunter22',
+    GIT_AUTHOR_NAME: 'Someone',
+    CUSTOM: 'custom-value',
+    API_KEY: 'abc',
+    PATH: '/usr/bin',
+  };
+
+  it('should redact values of secret-looking variables', () => {
+    const redact = createRedactor(env, true);
+
+    expect(redact('token=ghp_abcdef password=hunter22 by Someone')).toBe(
+      'token=[redacted] password=[redacted] by Someone'
+    );
+    // Too short to redact without mangling unrelated text
+    expect(redact('abc /usr/bin custom-value')).toBe('abc /usr/bin custom-value');
+  });
+
+  it('should redact listed variables and do nothing when disabled', () => {
+    expect(createRedactor(env, ['CUSTOM'])('x custom-value ghp_abcdef')).toBe(
+      'x [redacted] [redacted]'
+    );
+    expect(createRedactor(env, false)('ghp_abcdef')).toBe('ghp_abcdef');
+  });
+
+  it('should redact every variable matched by a global pattern', () => {
+    const redact = createRedactor({ MY_ONE: 'first-value', MY_TWO: 'second-value' }, [/^MY_/g]);
+
+    expect(redact('first-value second-value')).toBe('[redacted] [redacted]');
+  });
+
+  it('should treat secret values literally', () => {
+    const redact = createRedactor({ SECRET: 'a.b*c', TOKEN: 'a.b*c(d)' }, true);
+
+    expect(redact('a.b*c(d) a.b*c axbbc')).toBe('[redacted] [redacted] axbbc');
+  });
+});
@@ -43,8 +43,19 @@ function log(...args: unknown[]): void {
   console.error('[echo-server]', ...args);
 }
 
+// Requests sent to the client, mapped to the id of the request that triggered them
+const pendingClientRequests = new Map<string | number, string | number>();
+let nextClientRequestId = 1;
+
+// Responses collected while handling a batch
+let batchResponses: JSONRPCResponse[] | null = null;
+
 // Send response to stdout
-function sendResponse(response: JSONRPCResponse | JSONRPCNotification): void {
+function sendResponse(response: JSONRPCRequest | JSONRPCResponse | JSONRPCNotification): void {
+  if (batchResponses && !('method' in response)) {
+    batchResponses.push(response);
+    return;
+  }
   process.stdout.write(`${JSON.stringify(response)}\n`);
 }
 
@@ -125,6 +136,72 @@ function handleRequest(request: JSONRPCRequest): void {
         }
         break;
 
+      case 'callClient':
+        // Forward a request to the client and relay its response back to the caller
+        if (typeof params === 'object' && params !== null && id !== undefined) {
+          const { method: clientMethod, params: clientParams } = params as {
+            method: string;
+            params?: unknown;
+          };
+          const clientRequestId = `server-${nextClientRequestId++}`;
+          pendingClientRequests.set(clientRequestId, id);
+          sendResponse({
+            jsonrpc: '2.0',
+            id: clientRequestId,
+            method: clientMethod,
+            params: clientParams,
+          });
+        }
+        break;
+
+      case 'slow':
+        // Echo back the params after a delay
+        if (id !== undefined) {
+          const { ms = 1000 } = (params ?? {}) as { ms?: number };
+          setTimeout(() => sendResponse({ jsonrpc: '2.0', id, result: params }), ms);
+        }
+        break;
+
+      case 'progress': {
+        // Report three progress steps (MCP or LSP style) before responding
+        const { _meta, workDoneToken } = (params ?? {}) as {
+          _meta?: { progressToken?: string | number };
+          workDoneToken?: string | number;
+        };
+        for (let step = 1; step <= 3; step++) {
+          if (_meta?.progressToken !== undefined) {
+            sendResponse({
+              jsonrpc: '2.0',
+              method: 'notifications/progress',
+              params: { progressToken: _meta.progressToken, progress: step, total: 3 },
+            });
+          } else if (workDoneToken !== undefined) {
+            sendResponse({
+              jsonrpc: '2.0',
+              method: '$/progress',
+              params: { token: workDoneToken, value: { kind: 'report', percentage: step * 33 } },
+            });
+          }
+        }
+        if (id !== undefined) {
+          sendResponse({ jsonrpc: '2.0', id, result: { done: true } });
+        }
+        break;
+      }
+
+      case 'raw':
+        // Write text to stdout as-is, then answer
+        process.stdout.write((params as { text: string }).text);
+        if (id !== undefined) {
+          sendResponse({ jsonrpc: '2.0', id, result: 'written' });
+        }
+        break;
+
+      case 'exit':
+        // Terminate the process with the requested exit code
+        process.exit((params as { code?: number } | undefined)?.code ?? 1);
+        break;
+
       case 'ping':
         // Simple ping/pong
         if (id !== undefined) {
@@ -166,14 +243,47 @@ function handleRequest(request: JSONRPCRequest): void {
   }
 }
 
+// Handle a batch, replying in reverse order to exercise out-of-order matching
+function handleBatch(requests: JSONRPCRequest[]): void {
+  batchResponses = [];
+  for (const request of requests) {
+    handleRequest(request);
+  }
+  const responses = batchResponses.reverse();
+  batchResponses = null;
+
+  if (responses.length > 0) {
+    process.stdout.write(`${JSON.stringify(responses)}\n`);
+  }
+}
+
+// Relay a response from the client to the request that triggered it
+function handleClientResponse(response: JSONRPCResponse): void {
+  const originalId = pendingClientRequests.get(response.id);
+  if (originalId === undefined) return;
+
+  pendingClientRequests.delete(response.id);
+  sendResponse(
+    response.error
+      ? { jsonrpc: '2.0', id: originalId, error: response.error }
+      : { jsonrpc: '2.0', id: originalId, result: response.result }
+  );
+}
+
 // Process each line from stdin
 rl.on('line', (line: string) => {
   const trimmed = line.trim();
   if (!trimmed) return;
 
   try {
-    const request = JSON.parse(trimmed) as JSONRPCRequest;
-    handleRequest(request);
+    const message = JSON.parse(trimmed) as JSONRPCRequest | JSONRPCResponse | JSONRPCRequest[];
+    if (Array.isArray(message)) {
+      handleBatch(message);
+    } else if ('method' in message) {
+      handleRequest(message);
+    } else {
+      handleClientResponse(message);
+    }
   } catch (error) {
     log('Error parsing request:', error);
   }
@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal JSON-RPC 2.0 server using LSP-style Content-Length framing for testing
+ * Reads framed requests from stdin, writes framed responses to stdout
+ */
+
+let buffer = Buffer.alloc(0);
+
+// Log to stderr (safe for stdio transport)
+function log(...args) {
+  console.error('[lsp-server]', ...args);
+}
+
+// Send a framed message to stdout
+function send(message) {
+  const body = JSON.stringify(message);
+  process.stdout.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`);
+}
+
+// Text sync kind announced in `initialize` (LSP_SYNC_KIND, default incremental)
+const syncKind = Number(process.env.LSP_SYNC_KIND ?? 2);
+
+// The server's view of open documents, and every didChange received
+const documents = new Map();
+const changes = [];
+
+// Lifecycle state, inspected through `test/state`
+let initializeParams = null;
+let initialized = false;
+
+// Requests sent to the client, mapped to the id of the request that triggered them
+const pendingClientRequests = new Map();
+let nextClientRequestId = 1;
+
+// Publish one warning per line containing TODO
+function publishDiagnostics(uri, text) {
+  const diagnostics = [];
+  text.split('\n').forEach((line, index) => {
+    const character = line.indexOf('TODO');
+    if (character !== -1) {
+      diagnostics.push({
+        range: {
+          start: { line: index, character },
+          end: { line: index, character: character + 4 },
+        },
+        severity: 2,
+        message: 'TODO found',
+      });
+    }
+  });
+  send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: { uri, diagnostics } });
+}
+
+// Apply a didChange the way a server would
+function applyChange(text, change) {
+  if (!change.range) return change.text;
+  const lines = text.split('\n');
+  const offset = ({ line, character }) =>
+    lines.slice(0, line).reduce((total, current) => total + current.length + 1, 0) + character;
+  return (
+    text.slice(0, offset(change.range.start)) + change.text + text.slice(offset(change.range.end))
+  );
+}
+
+// Handle a JSON-RPC notification
+function handleNotification({ method, params }) {
+  log('Received notification:', method);
+
+  switch (method) {
+    case 'initialized':
+      initialized = true;
+      break;
+    case 'textDocument/didOpen': {
+      const { uri, text, version } = params.textDocument;
+      documents.set(uri, { text, version });
+      publishDiagnostics(uri, text);
+      break;
+    }
+    case 'textDocument/didChange': {
+      const { uri, version } = params.textDocument;
+      const document = documents.get(uri);
+      changes.push(params);
+      document.text = params.contentChanges.reduce(applyChange, document.text);
+      document.version = version;
+      publishDiagnostics(uri, document.text);
+      break;
+    }
+    case 'textDocument/didClose':
+      documents.delete(params.textDocument.uri);
+      send({
+        jsonrpc: '2.0',
+        method: 'textDocument/publishDiagnostics',
+        params: { uri: params.textDocument.uri, diagnostics: [] },
+      });
+      break;
+    case 'exit':
+      process.exit(0);
+      break;
+  }
+}
+
+// Handle JSON-RPC request
+function handleRequest(request) {
+  if (request.id === undefined) {
+    handleNotification(request);
+    return;
+  }
+  log('Received request:', request.method);
+
+  const { id, method, params } = request;
+
+  switch (method) {
+    case 'initialize':
+      initializeParams = params;
+      send({
+        jsonrpc: '2.0',
+        id,
+        result: {
+          capabilities: { textDocumentSync: { openClose: true, change: syncKind } },
+          serverInfo: { name: 'lsp-server', version: '1.0.0' },
+        },
+      });
+      send({ jsonrpc: '2.0', method: 'window/logMessage', params: { type: 3, message: 'ready' } });
+      break;
+    case 'shutdown':
+      send({ jsonrpc: '2.0', id, result: null });
+      break;
+    case 'ping':
+      send({ jsonrpc: '2.0', id, result: 'pong' });
+      break;
+    case 'echo':
+      send({ jsonrpc: '2.0', id, result: params });
+      break;
+    case 'test/state':
+      send({
+        jsonrpc: '2.0',
+        id,
+        result: {
+          documents: Object.fromEntries(documents),
+          changes,
+          initializeParams,
+          initialized,
+        },
+      });
+      break;
+    case 'test/configuration': {
+      // Ask the client for configuration and relay its answer
+      const clientRequestId = `server-${nextClientRequestId++}`;
+      pendingClientRequests.set(clientRequestId, id);
+      send({ jsonrpc: '2.0', id: clientRequestId, method: 'workspace/configuration', params });
+      break;
+    }
+    case 'test/notify':
+      // Send the given notification as-is, e.g. a malformed one
+      send({ jsonrpc: '2.0', ...params });
+      send({ jsonrpc: '2.0', id, result: null });
+      break;
+    case 'test/crash':
+      process.exit(1);
+      break;
+    default:
+      send({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } });
+  }
+}
+
+// Handle a message: a response from the client, a request or a notification
+function handleMessage(message) {
+  if (!('method' in message)) {
+    const originalId = pendingClientRequests.get(message.id);
+    pendingClientRequests.delete(message.id);
+    send({ jsonrpc: '2.0', id: originalId, result: message.result });
+    return;
+  }
+  handleRequest(message);
+}
+
+process.stdin.on('data', (chunk) => {
+  buffer = Buffer.concat([buffer, chunk]);
+
+  while (true) {
+    const headerEnd = buffer.indexOf('\r\n\r\n');
+    if (headerEnd === -1) return;
+
+    const header = buffer.subarray(0, headerEnd).toString('ascii');
+    const match = /Content-Length:\s*(\d+)/i.exec(header);
+    if (!match) {
+      log('Missing Content-Length header');
+      buffer = Buffer.alloc(0);
+      return;
+    }
+
+    const length = Number(match[1]);
+    const bodyStart = headerEnd + 4;
+    if (buffer.length < bodyStart + length) return;
+
+    const body = buffer.subarray(bodyStart, bodyStart + length).toString('utf8');
+    buffer = buffer.subarray(bodyStart + length);
+
+    try {
+      handleMessage(JSON.parse(body));
+    } catch (error) {
+      log('Error parsing request:', error);
+    }
+  }
+});
+
+process.stdin.on('end', () => {
+  log('Input stream closed, exiting');
+  process.exit(0);
+});
+
+log('LSP server started, waiting for requests...');
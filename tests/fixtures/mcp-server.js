@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal MCP server for testing McpStdioClient
+ *
+ * Environment:
+ * - MOCK_PROTOCOL_VERSION: protocol version to answer `initialize` with
+ * - MOCK_CAPABILITIES: JSON server capabilities replacing the defaults
+ */
+
+import { createInterface } from 'node:readline';
+
+const rl = createInterface({ input: process.stdin, terminal: false });
+
+const CAPABILITIES = process.env.MOCK_CAPABILITIES
+  ? JSON.parse(process.env.MOCK_CAPABILITIES)
+  : {
+      logging: {},
+      prompts: { listChanged: true },
+      resources: { subscribe: true, listChanged: true },
+      tools: { listChanged: true },
+    };
+
+const TOOLS = [
+  { name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+  { name: 'count', inputSchema: { type: 'object', properties: { to: { type: 'number' } } } },
+  { name: 'change_tools', inputSchema: { type: 'object' } },
+  { name: 'state', inputSchema: { type: 'object' } },
+  { name: 'ping_client', inputSchema: { type: 'object' } },
+  { name: 'crash', inputSchema: { type: 'object' } },
+];
+
+const RESOURCES = [
+  { uri: 'mock://a', name: 'A', mimeType: 'text/plain' },
+  { uri: 'mock://b', name: 'B', mimeType: 'text/plain' },
+];
+
+const PROMPTS = [
+  { name: 'greet', arguments: [{ name: 'name', required: true }] },
+  { name: 'summarize' },
+  { name: 'translate' },
+];
+
+// Session state, inspected through the `state` tool
+const state = { initialized: false, subscriptions: [], level: null };
+let clientPingId = null;
+
+function log(...args) {
+  console.error('[mcp-server]', ...args);
+}
+
+function send(message) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+}
+
+function notify(method, params) {
+  send({ method, params });
+}
+
+// Serve `items` two per page, using the start index as the cursor
+function page(items, key, cursor) {
+  const start = cursor ? Number(cursor) : 0;
+  const result = { [key]: items.slice(start, start + 2) };
+  if (start + 2 < items.length) {
+    result.nextCursor = String(start + 2);
+  }
+  return result;
+}
+
+function text(value) {
+  return { content: [{ type: 'text', text: value }] };
+}
+
+function callTool(id, { name, arguments: args = {}, _meta }) {
+  switch (name) {
+    case 'echo':
+      return send({ id, result: text(args.text) });
+    case 'count':
+      for (let i = 1; i <= args.to; i++) {
+        notify('notifications/progress', {
+          progressToken: _meta?.progressToken,
+          progress: i,
+          total: args.to,
+        });
+      }
+      return send({ id, result: text(`counted to ${args.to}`) });
+    case 'change_tools':
+      notify('notifications/tools/list_changed');
+      return send({ id, result: text('changed') });
+    case 'state':
+      return send({ id, result: text(JSON.stringify(state)) });
+    case 'notify':
+      // Send the given notification as-is, e.g. a malformed one
+      notify(args.method, args.params);
+      return send({ id, result: text('sent') });
+    case 'ping_client':
+      clientPingId = id;
+      return send({ id: 'server-ping', method: 'ping' });
+    case 'crash':
+      process.exit(1);
+      break;
+    default:
+      return send({ id, result: { ...text(`Unknown tool: ${name}`), isError: true } });
+  }
+}
+
+function handleRequest({ id, method, params }) {
+  log('Received request:', method);
+
+  switch (method) {
+    case 'initialize':
+      return send({
+        id,
+        result: {
+          protocolVersion: process.env.MOCK_PROTOCOL_VERSION ?? params.protocolVersion,
+          capabilities: CAPABILITIES,
+          serverInfo: { name: 'mock-mcp-server', version: '1.0.0' },
+          instructions: 'Use the echo tool.',
+        },
+      });
+    case 'ping':
+      return send({ id, result: {} });
+    case 'tools/list':
+      return send({ id, result: page(TOOLS, 'tools', params?.cursor) });
+    case 'tools/call':
+      return callTool(id, params);
+    case 'resources/list':
+      return send({ id, result: page(RESOURCES, 'resources', params?.cursor) });
+    case 'resources/templates/list':
+      return send({
+        id,
+        result: { resourceTemplates: [{ uriTemplate: 'mock://{name}', name: 'Mock' }] },
+      });
+    case 'resources/read':
+      return send({
+        id,
+        result: { contents: [{ uri: params.uri, mimeType: 'text/plain', text: `${params.uri}!` }] },
+      });
+    case 'resources/subscribe':
+      state.subscriptions.push(params.uri);
+      send({ id, result: {} });
+      return notify('notifications/resources/updated', { uri: params.uri });
+    case 'resources/unsubscribe':
+      state.subscriptions = state.subscriptions.filter((uri) => uri !== params.uri);
+      return send({ id, result: {} });
+    case 'prompts/list':
+      return send({ id, result: page(PROMPTS, 'prompts', params?.cursor) });
+    case 'prompts/get':
+      return send({
+        id,
+        result: {
+          messages: [
+            { role: 'user', content: { type: 'text', text: `Hello, ${params.arguments?.name}` } },
+          ],
+        },
+      });
+    case 'logging/setLevel':
+      state.level = params.level;
+      send({ id, result: {} });
+      return notify('notifications/message', {
+        level: 'info',
+        logger: 'mock',
+        data: `level set to ${params.level}`,
+      });
+    default:
+      return send({ id, error: { code: -32601, message: 'Method not found' } });
+  }
+}
+
+rl.on('line', (line) => {
+  const message = JSON.parse(line);
+
+  if ('method' in message && 'id' in message) {
+    handleRequest(message);
+  } else if ('method' in message) {
+    log('Received notification:', message.method);
+    if (message.method === 'notifications/initialized') {
+      state.initialized = true;
+    }
+  } else if (message.id === 'server-ping' && clientPingId !== null) {
+    send({ id: clientPingId, result: text(`client answered ${JSON.stringify(message.result)}`) });
+    clientPingId = null;
+  }
+});
+
+log('Mock MCP server started');
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ContentLengthMessageReader,
+  NewlineMessageReader,
+  createMessageReader,
+  encodeMessage,
+} from '../src/framing.js';
+
+function frame(body: string, extraHeaders = ''): Buffer {
+  return Buffer.from(
+    `Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n${extraHeaders}\r\n${body}`,
+    'utf8'
+  );
+}
+
+describe('framing', () => {
+  describe('NewlineMessageReader', () => {
+    it('should split complete lines', () => {
+      const reader = new NewlineMessageReader();
+
+      const messages = reader.push(Buffer.from('{"a":1}\n{"b":2}\n'));
+
+      expect(messages).toEqual(['{"a":1}', '{"b":2}']);
+    });
+
+    it('should buffer partial lines across chunks', () => {
+      const reader = new NewlineMessageReader();
+
+      expect(reader.push(Buffer.from('{"a":'))).toEqual([]);
+      expect(reader.push(Buffer.from('1}\n'))).toEqual(['{"a":1}']);
+    });
+
+    it('should skip blank lines', () => {
+      const reader = new NewlineMessageReader();
+
+      expect(reader.push(Buffer.from('\n  \r\n{"a":1}\r\n'))).toEqual(['{"a":1}']);
+    });
+
+    it('should decode multi-byte characters split across chunks', () => {
+      const reader = new NewlineMessageReader();
+      const bytes = Buffer.from('{"text":"héllo 🚀"}\n', 'utf8');
+      const splitAt = bytes.indexOf(0xf0) + 2; // middle of the rocket emoji
+
+      expect(reader.push(bytes.subarray(0, splitAt))).toEqual([]);
+      expect(reader.push(bytes.subarray(splitAt))).toEqual(['{"text":"héllo 🚀"}']);
+    });
+
+    it('should skip and report lines longer than maxMessageBytes', () => {
+      const oversized: Array<[number, string]> = [];
+      const reader = new NewlineMessageReader({
+        maxMessageBytes: 10,
+        onOversize: (bytes, head) => oversized.push([bytes, head.toString()]),
+      });
+
+      expect(reader.push(Buffer.from('{"a":1}\n{"long":"xxxxx"}\n{"b":2}\n'))).toEqual([
+        '{"a":1}',
+        '{"b":2}',
+      ]);
+      expect(oversized).toEqual([[16, '{"long":"xxxxx"}']]);
+    });
+
+    it('should discard an unterminated oversized line up to the next newline', () => {
+      const oversized: number[] = [];
+      const reader = new NewlineMessageReader({
+        maxMessageBytes: 10,
+        onOversize: (bytes) => oversized.push(bytes),
+      });
+
+      expect(reader.push(Buffer.from('x'.repeat(12)))).toEqual([]);
+      expect(reader.push(Buffer.from('x'.repeat(100)))).toEqual([]);
+      expect(reader.push(Buffer.from('xx\n{"a":1}\n'))).toEqual(['{"a":1}']);
+      expect(oversized).toEqual([12]);
+    });
+  });
+
+  describe('ContentLengthMessageReader', () => {
+    it('should parse a single framed message', () => {
+      const reader = new ContentLengthMessageReader();
+
+      const messages = reader.push(frame('{"jsonrpc":"2.0","id":1,"result":null}'));
+
+      expect(messages).toEqual(['{"jsonrpc":"2.0","id":1,"result":null}']);
+    });
+
+    it('should parse multiple messages in one chunk', () => {
+      const reader = new ContentLengthMessageReader();
+
+      const messages = reader.push(Buffer.concat([frame('{"a":1}'), frame('{"b":2}')]));
+
+      expect(messages).toEqual(['{"a":1}', '{"b":2}']);
+    });
+
+    it('should handle headers and bodies split across chunks', () => {
+      const reader = new ContentLengthMessageReader();
+      const bytes = frame('{"method":"initialized"}');
+
+      const received: string[] = [];
+      for (const byte of bytes) {
+        received.push(...reader.push(Buffer.from([byte])));
+      }
+
+      expect(received).toEqual(['{"method":"initialized"}']);
+    });
+
+    it('should count Content-Length in bytes for multi-byte bodies', () => {
+      const reader = new ContentLengthMessageReader();
+      const body = '{"text":"日本語 ✓"}';
+
+      const messages = reader.push(Buffer.concat([frame(body), frame('{"next":true}')]));
+
+      expect(messages).toEqual([body, '{"next":true}']);
+    });
+
+    it('should accept a utf-8 Content-Type header in any case', () => {
+      const reader = new ContentLengthMessageReader();
+      const body = '{"a":1}';
+
+      const messages = reader.push(
+        frame(body, 'content-type: application/vscode-jsonrpc; charset=UTF-8\r\n')
+      );
+
+      expect(messages).toEqual([body]);
+    });
+
+    it('should reject unsupported charsets', () => {
+      const reader = new ContentLengthMessageReader();
+
+      expect(() =>
+        reader.push(frame('{}', 'Content-Type: application/json; charset=latin1\r\n'))
+      ).toThrow('Unsupported charset');
+    });
+
+    it('should reject a header block without Content-Length', () => {
+      const reader = new ContentLengthMessageReader();
+
+      expect(() => reader.push(Buffer.from('Content-Type: text/plain\r\n\r\n{}'))).toThrow(
+        'Missing Content-Length header'
+      );
+    });
+
+    it('should reject an invalid Content-Length', () => {
+      const reader = new ContentLengthMessageReader();
+
+      expect(() => reader.push(Buffer.from('Content-Length: abc\r\n\r\n'))).toThrow(
+        'Invalid Content-Length header'
+      );
+    });
+
+    it('should only accept decimal digits as Content-Length', () => {
+      for (const value of ['0x10', '1e3', '+5', '-1', '1.0', '']) {
+        const reader = new ContentLengthMessageReader();
+
+        expect(() => reader.push(Buffer.from(`Content-Length: ${value}\r\n\r\n{}`))).toThrow(
+          `Invalid Content-Length header: ${value}`
+        );
+      }
+    });
+
+    it('should discard a partial frame on reset', () => {
+      const reader = new ContentLengthMessageReader();
+
+      reader.push(Buffer.from('Content-Length: 10\r\n\r\n{"a"'));
+      reader.reset();
+
+      expect(reader.push(frame('{"b":2}'))).toEqual(['{"b":2}']);
+    });
+
+    it('should skip and report bodies longer than maxMessageBytes across chunks', () => {
+      const oversized: number[] = [];
+      const reader = new ContentLengthMessageReader({
+        maxMessageBytes: 10,
+        onOversize: (bytes) => oversized.push(bytes),
+      });
+      const big = frame(`{"long":"${'x'.repeat(20)}"}`);
+
+      expect(reader.push(big.subarray(0, 30))).toEqual([]);
+      expect(reader.push(Buffer.concat([big.subarray(30), frame('{"a":1}')]))).toEqual(['{"a":1}']);
+      expect(oversized).toEqual([31]);
+    });
+
+    it('should reject an unterminated header block that grows too large', () => {
+      const reader = new ContentLengthMessageReader();
+
+      expect(() => reader.push(Buffer.from(`X-Padding: ${'x'.repeat(9000)}`))).toThrow(
+        'Header block exceeds'
+      );
+    });
+  });
+
+  describe('createMessageReader', () => {
+    it('should create a reader for each framing mode', () => {
+      expect(createMessageReader('newline')).toBeInstanceOf(NewlineMessageReader);
+      expect(createMessageReader('content-length')).toBeInstanceOf(ContentLengthMessageReader);
+    });
+  });
+
+  describe('encodeMessage', () => {
+    it('should append a newline in newline mode', () => {
+      expect(encodeMessage('{"a":1}', 'newline')).toBe('{"a":1}\n');
+    });
+
+    it('should prefix a byte-accurate Content-Length header', () => {
+      expect(encodeMessage('{"t":"é"}', 'content-length')).toBe(
+        'Content-Length: 10\r\n\r\n{"t":"é"}'
+      );
+    });
+
+    it('should round-trip through the matching reader', () => {
+      const reader = createMessageReader('content-length');
+      const message = '{"jsonrpc":"2.0","method":"log","params":{"msg":"✓"}}';
+
+      const encoded = Buffer.from(encodeMessage(message, 'content-length'), 'utf8');
+
+      expect(reader.push(encoded)).toEqual([message]);
+    });
+  });
+});
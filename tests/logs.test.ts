@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { LogLineReader, parseLogLine } from '../src/logs.js';
+
+describe('logs', () => {
+  describe('LogLineReader', () => {
+    it('should join partial lines across chunks', () => {
+      const reader = new LogLineReader();
+
+      expect(reader.push(Buffer.from('Error: boom\n    at f'))).toEqual(['Error: boom']);
+      expect(reader.push(Buffer.from('oo (a.js:1:1)\n'))).toEqual(['    at foo (a.js:1:1)']);
+    });
+
+    it('should split several lines in one chunk and skip blank ones', () => {
+      const reader = new LogLineReader();
+
+      expect(reader.push(Buffer.from('one\r\n\n  \ntwo\n'))).toEqual(['one', 'two']);
+    });
+
+    it('should return the unterminated last line on flush', () => {
+      const reader = new LogLineReader();
+
+      expect(reader.push(Buffer.from('no newline'))).toEqual([]);
+      expect(reader.flush()).toEqual(['no newline']);
+      expect(reader.flush()).toEqual([]);
+    });
+
+    it('should emit very long lines in pieces', () => {
+      const reader = new LogLineReader();
+
+      const lines = reader.push(Buffer.from('x'.repeat(70 * 1024)));
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toHaveLength(70 * 1024);
+    });
+
+    it('should not split a multi-byte character when emitting a long line in pieces', () => {
+      const reader = new LogLineReader();
+      // 'é' is two bytes; the cut falls in the middle of the last one
+      const bytes = Buffer.from('é'.repeat(32 * 1024 + 1));
+
+      const first = reader.push(bytes.subarray(0, bytes.length - 1));
+      const second = reader.push(
+        Buffer.concat([bytes.subarray(bytes.length - 1), Buffer.from('\n')])
+      );
+
+      expect(first).toEqual(['é'.repeat(32 * 1024)]);
+      expect(second).toEqual(['é']);
+    });
+  });
+
+  describe('parseLogLine', () => {
+    it('should only tag the stream when structured logs are off', () => {
+      expect(parseLogLine('{"level":30,"msg":"hi"}', 'stderr', false)).toEqual({
+        stream: 'stderr',
+      });
+    });
+
+    it('should parse pino records', () => {
+      const line = '{"level":40,"time":1700000000000,"pid":42,"msg":"disk low","free":10}';
+
+      expect(parseLogLine(line, 'stderr', true)).toEqual({
+        stream: 'stderr',
+        level: 'warn',
+        msg: 'disk low',
+        time: 1700000000000,
+        fields: { pid: 42, free: 10 },
+      });
+    });
+
+    it('should parse bunyan records with ISO timestamps', () => {
+      const line =
+        '{"name":"app","level":50,"msg":"failed","time":"2024-01-02T03:04:05.000Z","v":0}';
+
+      expect(parseLogLine(line, 'stderr', true)).toEqual({
+        stream: 'stderr',
+        level: 'error',
+        msg: 'failed',
+        time: Date.parse('2024-01-02T03:04:05.000Z'),
+        fields: { name: 'app', v: 0 },
+      });
+    });
+
+    it('should parse structlog records', () => {
+      const line =
+        '{"event":"started","level":"warning","timestamp":"2024-01-02T03:04:05Z","port":80}';
+
+      expect(parseLogLine(line, 'stderr', true)).toEqual({
+        stream: 'stderr',
+        level: 'warn',
+        msg: 'started',
+        time: Date.parse('2024-01-02T03:04:05Z'),
+        fields: { port: 80 },
+      });
+    });
+
+    it('should keep unrecognised levels in fields', () => {
+      expect(parseLogLine('{"level":"verbose","message":"x"}', 'stderr', true)).toEqual({
+        stream: 'stderr',
+        msg: 'x',
+        fields: { level: 'verbose' },
+      });
+    });
+
+    it('should treat non-JSON lines as plain text', () => {
+      expect(parseLogLine('{ not json', 'stderr', true)).toEqual({ stream: 'stderr' });
+      expect(parseLogLine('plain', 'stderr', true)).toEqual({ stream: 'stderr' });
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError } from '../src/errors.js';
+import type { LspDiagnostic, LspMessageParams, LspStdioClientConfig } from '../src/lsp-types.js';
+import { LspStdioClient } from '../src/lsp.js';
+import { waitForEvent } from './helpers.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const lspServerPath = join(__dirname, 'fixtures', 'lsp-server.js');
+
+const uri = 'file:///workspace/a.txt';
+
+interface ServerState {
+  documents: Record<string, { text: string; version: number }>;
+  changes: Array<{ textDocument: { version: number }; contentChanges: unknown[] }>;
+  initializeParams: Record<string, unknown>;
+  initialized: boolean;
+}
+
+describe('LspStdioClient', () => {
+  let client: LspStdioClient;
+
+  function createClient(config: Partial<LspStdioClientConfig> = {}): LspStdioClient {
+    client = new LspStdioClient({
+      command: 'node',
+      args: [lspServerPath],
+      rootUri: 'file:///workspace',
+      ...config,
+    });
+    return client;
+  }
+
+  function serverState(): Promise<ServerState> {
+    return client.client.request<ServerState>('test/state');
+  }
+
+  afterEach(async () => {
+    if (client?.isConnected()) {
+      await client.disconnect();
+    }
+  });
+
+  describe('lifecycle', () => {
+    it('should initialize with merged capabilities and send initialized', async () => {
+      createClient({
+        clientInfo: { name: 'test-client' },
+        capabilities: { textDocument: { hover: { contentFormat: ['plaintext'] } } },
+        initializationOptions: { strict: true },
+      });
+      const logMessage = waitForEvent<LspMessageParams>(client, 'logMessage');
+
+      const result = await client.connect();
+
+      expect(result.serverInfo).toEqual({ name: 'lsp-server', version: '1.0.0' });
+      expect(client.getSyncKind()).toBe(2);
+      expect(await logMessage).toEqual({ type: 3, message: 'ready' });
+
+      const { initializeParams, initialized } = await serverState();
+      expect(initialized).toBe(true);
+      expect(initializeParams).toMatchObject({
+        processId: process.pid,
+        clientInfo: { name: 'test-client' },
+        rootUri: 'file:///workspace',
+        workspaceFolders: [{ uri: 'file:///workspace', name: 'workspace' }],
+        initializationOptions: { strict: true },
+        capabilities: {
+          workspace: { configuration: true },
+          textDocument: {
+            hover: { contentFormat: ['plaintext'] },
+            publishDiagnostics: { relatedInformation: true },
+          },
+        },
+      });
+    });
+
+    it('should send shutdown and exit on disconnect', async () => {
+      createClient();
+      await client.connect();
+
+      // The fixture exits with code 0 only when it receives `exit`
+      expect(await client.disconnect()).toEqual({ code: 0, signal: null });
+    });
+  });
+
+  describe('text document synchronization', () => {
+    it('should track versions and send incremental changes', async () => {
+      createClient();
+      await client.connect();
+
+      expect(client.openDocument(uri, 'plaintext', 'hello\nworld')).toEqual({
+        uri,
+        languageId: 'plaintext',
+        version: 1,
+        text: 'hello\nworld',
+      });
+      const version = client.changeDocument(uri, [
+        { range: { start: { line: 0, character: 5 }, end: { line: 0, character: 5 } }, text: '!' },
+        {
+          range: { start: { line: 1, character: 0 }, end: { line: 1, character: 5 } },
+          text: 'there',
+        },
+      ]);
+
+      expect(version).toBe(2);
+      expect(client.getDocument(uri)?.text).toBe('hello!\nthere');
+
+      const { documents, changes } = await serverState();
+      expect(documents[uri]).toEqual({ text: 'hello!\nthere', version: 2 });
+      expect(changes[0]?.contentChanges).toHaveLength(2);
+    });
+
+    it('should send the full text to servers that sync fully', async () => {
+      createClient({ env: { ...process.env, LSP_SYNC_KIND: '1' } });
+      await client.connect();
+
+      client.openDocument(uri, 'plaintext', 'a\r\nb');
+      client.changeDocument(uri, [
+        { range: { start: { line: 1, character: 0 }, end: { line: 1, character: 99 } }, text: 'c' },
+      ]);
+
+      const { changes } = await serverState();
+      expect(changes[0]?.contentChanges).toEqual([{ text: 'a\r\nc' }]);
+    });
+
+    it('should reject changes to documents that are not open', async () => {
+      createClient();
+      await client.connect();
+
+      expect(() => client.changeDocument(uri, [{ text: 'x' }])).toThrow(
+        `Document not open: ${uri}`
+      );
+      client.openDocument(uri, 'plaintext', '');
+      expect(() => client.openDocument(uri, 'plaintext', '')).toThrow(
+        `Document already open: ${uri}`
+      );
+    });
+
+    it('should close documents', async () => {
+      createClient();
+      await client.connect();
+      client.openDocument(uri, 'plaintext', 'text');
+
+      client.closeDocument(uri);
+
+      expect(client.getDocument(uri)).toBeUndefined();
+      expect((await serverState()).documents).toEqual({});
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should aggregate published diagnostics per URI', async () => {
+      createClient();
+      await client.connect();
+
+      const published = waitForEvent<string>(client, 'diagnostics');
+      client.openDocument(uri, 'plaintext', 'one\nTODO two');
+      expect(await published).toBe(uri);
+
+      const diagnostics: LspDiagnostic[] = client.getDiagnostics(uri);
+      expect(diagnostics).toEqual([
+        {
+          range: { start: { line: 1, character: 0 }, end: { line: 1, character: 4 } },
+          severity: 2,
+          message: 'TODO found',
+        },
+      ]);
+      expect([...client.getAllDiagnostics().keys()]).toEqual([uri]);
+
+      const cleared = waitForEvent(client, 'diagnostics');
+      client.changeDocument(uri, [{ text: 'done' }]);
+      await cleared;
+
+      expect(client.getDiagnostics(uri)).toEqual([]);
+      expect(client.getAllDiagnostics().size).toBe(0);
+    });
+
+    it('should report malformed diagnostics as errors and still emit notification', async () => {
+      createClient();
+      await client.connect();
+
+      const error = waitForEvent<ValidationError>(client, 'error');
+      const published = vi.fn();
+      client.on('diagnostics', published);
+      const methods: string[] = [];
+      client.on('notification', (method: string) => methods.push(method));
+      await client.client.request('test/notify', {
+        method: 'textDocument/publishDiagnostics',
+        params: { uri },
+      });
+
+      expect(await error).toBeInstanceOf(ValidationError);
+      expect((await error).method).toBe('textDocument/publishDiagnostics');
+      expect(published).not.toHaveBeenCalled();
+      // Malformed notifications still reach generic listeners
+      expect(methods).toContain('textDocument/publishDiagnostics');
+      expect(client.isConnected()).toBe(true);
+    });
+  });
+
+  describe('workspace/configuration', () => {
+    it('should answer from settings by dotted section', async () => {
+      createClient({ settings: { python: { analysis: { strict: true } } } });
+      await client.connect();
+
+      const result = await client.client.request('test/configuration', {
+        items: [{ section: 'python.analysis' }, { section: 'rust' }, {}],
+      });
+
+      expect(result).toEqual([{ strict: true }, null, { python: { analysis: { strict: true } } }]);
+    });
+
+    it('should serve updated settings', async () => {
+      createClient();
+      await client.connect();
+
+      client.setSettings({ editor: { tabSize: 2 } });
+      const result = await client.client.request('test/configuration', {
+        items: [{ section: 'editor.tabSize' }],
+      });
+
+      expect(result).toEqual([2]);
+    });
+  });
+
+  describe('restart', () => {
+    it('should reinitialize and reopen documents after a crash', async () => {
+      createClient({ restart: { initialDelay: 10, jitter: 0 } });
+      await client.connect();
+      client.openDocument(uri, 'plaintext', 'hello');
+      client.changeDocument(uri, [{ text: 'hello again' }]);
+
+      const restarted = waitForEvent(client, 'restarted');
+      await client.client.request('test/crash').catch(() => {});
+      await restarted;
+
+      const { documents, initialized } = await serverState();
+      expect(initialized).toBe(true);
+      expect(documents[uri]).toEqual({ text: 'hello again', version: 2 });
+    });
+  });
+});
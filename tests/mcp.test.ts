@@ -0,0 +1,246 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it } from 'vitest';
+import { ValidationError } from '../src/errors.js';
+import type { McpCallToolResult, McpProgress, McpStdioClientConfig } from '../src/mcp-types.js';
+import { McpStdioClient } from '../src/mcp.js';
+import { waitForEvent } from './helpers.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const mcpServerPath = join(__dirname, 'fixtures', 'mcp-server.js');
+
+function textOf(result: McpCallToolResult): string {
+  const [content] = result.content;
+  return content?.type === 'text' ? content.text : '';
+}
+
+describe('McpStdioClient', () => {
+  let client: McpStdioClient;
+
+  function createClient(config: Partial<McpStdioClientConfig> = {}): McpStdioClient {
+    client = new McpStdioClient({
+      command: 'node',
+      args: [mcpServerPath],
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+      ...config,
+    });
+    return client;
+  }
+
+  afterEach(async () => {
+    if (client?.isConnected()) {
+      await client.disconnect();
+    }
+  });
+
+  describe('handshake', () => {
+    it('should initialize and send notifications/initialized', async () => {
+      createClient();
+
+      const result = await client.connect();
+
+      expect(result.protocolVersion).toBe('2025-03-26');
+      expect(client.getServerInfo()).toEqual({ name: 'mock-mcp-server', version: '1.0.0' });
+      expect(client.getServerCapabilities()?.tools).toEqual({ listChanged: true });
+      expect(client.getInstructions()).toBe('Use the echo tool.');
+
+      const state = JSON.parse(textOf(await client.callTool('state')));
+      expect(state.initialized).toBe(true);
+    });
+
+    it('should accept an older protocol version chosen by the server', async () => {
+      createClient({ env: { ...process.env, MOCK_PROTOCOL_VERSION: '2024-11-05' } });
+
+      const result = await client.connect();
+
+      expect(result.protocolVersion).toBe('2024-11-05');
+    });
+
+    it('should disconnect when the server picks an unsupported protocol version', async () => {
+      createClient({ env: { ...process.env, MOCK_PROTOCOL_VERSION: '1999-01-01' } });
+
+      await expect(client.connect()).rejects.toThrow(
+        'Unsupported MCP protocol version from server: 1999-01-01'
+      );
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should answer pings from the server', async () => {
+      createClient();
+      await client.connect();
+
+      const result = await client.callTool('ping_client');
+
+      expect(textOf(result)).toBe('client answered {}');
+    });
+  });
+
+  describe('tools', () => {
+    it('should page through tools with cursors', async () => {
+      createClient();
+      await client.connect();
+
+      const first = await client.listTools();
+      expect(first.tools.map((tool) => tool.name)).toEqual(['echo', 'count']);
+      expect(first.nextCursor).toBe('2');
+
+      const second = await client.listTools({ cursor: first.nextCursor });
+      expect(second.tools.map((tool) => tool.name)).toEqual(['change_tools', 'state']);
+
+      const all = await client.listAllTools();
+      expect(all).toHaveLength(6);
+    });
+
+    it('should call tools and deliver progress updates', async () => {
+      createClient();
+      await client.connect();
+      const updates: McpProgress[] = [];
+
+      const result = await client.callTool(
+        'count',
+        { to: 3 },
+        { onProgress: (progress) => updates.push(progress) }
+      );
+
+      expect(textOf(result)).toBe('counted to 3');
+      expect(updates).toEqual([
+        { progress: 1, total: 3 },
+        { progress: 2, total: 3 },
+        { progress: 3, total: 3 },
+      ]);
+    });
+
+    it('should emit toolsChanged for list_changed notifications', async () => {
+      createClient();
+      await client.connect();
+
+      const changed = waitForEvent(client, 'toolsChanged');
+      await client.callTool('change_tools');
+
+      await expect(changed).resolves.toBeUndefined();
+    });
+  });
+
+  describe('resources', () => {
+    it('should list, read and subscribe to resources', async () => {
+      createClient();
+      await client.connect();
+
+      expect((await client.listAllResources()).map((resource) => resource.uri)).toEqual([
+        'mock://a',
+        'mock://b',
+      ]);
+      expect(await client.listAllResourceTemplates()).toEqual([
+        { uriTemplate: 'mock://{name}', name: 'Mock' },
+      ]);
+      expect(await client.readResource('mock://a')).toEqual({
+        contents: [{ uri: 'mock://a', mimeType: 'text/plain', text: 'mock://a!' }],
+      });
+
+      const updated = waitForEvent<string>(client, 'resourceUpdated');
+      await client.subscribe('mock://a');
+      expect(await updated).toBe('mock://a');
+
+      await client.unsubscribe('mock://a');
+      const state = JSON.parse(textOf(await client.callTool('state')));
+      expect(state.subscriptions).toEqual([]);
+    });
+
+    it('should report resource updates without a uri as errors', async () => {
+      createClient();
+      await client.connect();
+      const updates: string[] = [];
+      const errors: ValidationError[] = [];
+      const notifications: unknown[] = [];
+      client.on('resourceUpdated', (uri) => void updates.push(uri));
+      client.on('error', (error) => void errors.push(error as ValidationError));
+      client.on('notification', (method, params) => {
+        if (method === 'notifications/resources/updated') notifications.push(params);
+      });
+
+      await client.callTool('notify', { method: 'notifications/resources/updated' });
+      await client.callTool('notify', {
+        method: 'notifications/resources/updated',
+        params: { uri: 42 },
+      });
+      await client.callTool('notify', {
+        method: 'notifications/resources/updated',
+        params: { uri: 'mock://b' },
+      });
+
+      expect(updates).toEqual(['mock://b']);
+      expect(errors.map((error) => error instanceof ValidationError && error.path)).toEqual([
+        ['uri'],
+        ['uri'],
+      ]);
+      // Malformed notifications still reach generic listeners
+      expect(notifications).toEqual([undefined, { uri: 42 }, { uri: 'mock://b' }]);
+      expect(client.isConnected()).toBe(true);
+    });
+
+    it('should refuse features the server did not advertise', async () => {
+      createClient({
+        env: { ...process.env, MOCK_CAPABILITIES: JSON.stringify({ resources: {} }) },
+      });
+      await client.connect();
+
+      await expect(client.listTools()).rejects.toThrow('Server does not support tools');
+      await expect(client.callTool('echo')).rejects.toThrow('Server does not support tools');
+      await expect(client.getPrompt('greet')).rejects.toThrow('Server does not support prompts');
+      await expect(client.subscribe('mock://a')).rejects.toThrow(
+        'Server does not support resource subscriptions'
+      );
+      await expect(client.listResources()).resolves.toHaveProperty('resources');
+    });
+  });
+
+  describe('prompts', () => {
+    it('should list all prompts across pages and render one', async () => {
+      createClient();
+      await client.connect();
+
+      const prompts = await client.listAllPrompts();
+      expect(prompts.map((prompt) => prompt.name)).toEqual(['greet', 'summarize', 'translate']);
+
+      const result = await client.getPrompt('greet', { name: 'Ada' });
+      expect(result.messages[0]?.content).toEqual({ type: 'text', text: 'Hello, Ada' });
+    });
+  });
+
+  describe('logging', () => {
+    it('should set the logging level and emit logMessage events', async () => {
+      createClient();
+      await client.connect();
+
+      const message = waitForEvent(client, 'logMessage');
+      await client.setLoggingLevel('debug');
+
+      await expect(message).resolves.toEqual({
+        level: 'info',
+        logger: 'mock',
+        data: 'level set to debug',
+      });
+    });
+  });
+
+  describe('restart', () => {
+    it('should redo the handshake and restore the session after a crash', async () => {
+      const hookCalls: McpStdioClient[] = [];
+      createClient({
+        restart: { initialDelay: 10, jitter: 0, onRestart: (mcp) => void hookCalls.push(mcp) },
+      });
+      await client.connect();
+      await client.subscribe('mock://b');
+      await client.setLoggingLevel('warning');
+
+      const restarted = waitForEvent(client, 'restarted');
+      await client.callTool('crash').catch(() => {});
+      await restarted;
+
+      const state = JSON.parse(textOf(await client.callTool('state')));
+      expect(state).toEqual({ initialized: true, subscriptions: ['mock://b'], level: 'warning' });
+      expect(hookCalls).toEqual([client]);
+    });
+  });
+});
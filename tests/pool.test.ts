@@ -0,0 +1,187 @@
+import { dirname, join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { StdioClient } from '../src/client.js';
+import { StdioClientPool } from '../src/pool.js';
+import type { ProcessExitDetails, StdioClientPoolConfig } from '../src/types.js';
+import { delay, waitForCondition, waitForEvent } from './helpers.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const echoServerPath = join(__dirname, 'fixtures', 'echo-server.js');
+
+describe('StdioClientPool', () => {
+  let pool: StdioClientPool;
+
+  function createPool(config: Partial<StdioClientPoolConfig> = {}): StdioClientPool {
+    pool = new StdioClientPool({ command: 'node', args: [echoServerPath], ...config });
+    return pool;
+  }
+
+  afterEach(async () => {
+    await pool?.disconnect();
+  });
+
+  describe('lifecycle', () => {
+    it('should start minSize workers and run onWorkerStart on each', async () => {
+      const started: StdioClient[] = [];
+      createPool({ minSize: 2, onWorkerStart: (client) => void started.push(client) });
+
+      await pool.connect();
+
+      expect(pool.getWorkers()).toEqual([
+        { id: 1, state: 'ready', pending: 0 },
+        { id: 2, state: 'ready', pending: 0 },
+      ]);
+      expect(started).toHaveLength(2);
+    });
+
+    it('should stop all workers after in-flight requests settle', async () => {
+      createPool({ minSize: 2 });
+      await pool.connect();
+
+      const inFlight = pool.request('slow', { ms: 100 });
+      await pool.disconnect();
+
+      await expect(inFlight).resolves.toEqual({ ms: 100 });
+      expect(pool.getWorkers()).toEqual([]);
+      await expect(pool.request('echo')).rejects.toThrow('Pool is closed');
+    });
+
+    it('should stop started workers when a worker fails to start', async () => {
+      createPool({
+        minSize: 2,
+        onWorkerStart: () => {
+          throw new Error('init failed');
+        },
+      });
+
+      await expect(pool.connect()).rejects.toThrow('init failed');
+      expect(pool.getWorkers()).toEqual([]);
+    });
+
+    it('should refuse a process or streams shared by all workers', () => {
+      const shared = [{ process: {} }, { streams: () => new PassThrough() }];
+      for (const config of shared) {
+        expect(
+          () => new StdioClientPool({ command: 'node', ...config } as StdioClientPoolConfig)
+        ).toThrow('process and streams are not supported');
+      }
+    });
+  });
+
+  describe('routing', () => {
+    it('should send each request to the worker with the fewest pending requests', async () => {
+      createPool({ minSize: 2 });
+      await pool.connect();
+
+      const slow = pool.request('slow', { ms: 200 });
+      const first = await pool.request('pid');
+      const second = await pool.request('pid');
+      expect(pool.getWorkers().map((worker) => worker.pending)).toEqual([1, 0]);
+      await slow;
+
+      // Both fast requests skip the worker that is busy with the slow one
+      expect(second).toBe(first);
+    });
+
+    it('should rotate through workers with round-robin', async () => {
+      createPool({ minSize: 3, strategy: 'round-robin' });
+      await pool.connect();
+
+      const pids = [];
+      for (let i = 0; i < 6; i++) {
+        pids.push(await pool.request('pid'));
+      }
+
+      expect(new Set(pids).size).toBe(3);
+      expect(pids.slice(3)).toEqual(pids.slice(0, 3));
+    });
+
+    it('should route requests with the same key to the same worker', async () => {
+      createPool({ minSize: 3, strategy: 'sticky' });
+      await pool.connect();
+
+      const first = await pool.request('pid', undefined, { key: 'session-1' });
+      for (let i = 0; i < 5; i++) {
+        expect(await pool.request('pid', undefined, { key: 'session-1' })).toBe(first);
+      }
+
+      const keys = Array.from({ length: 20 }, (_, i) => `session-${i}`);
+      const pids = await Promise.all(keys.map((key) => pool.request('pid', undefined, { key })));
+      expect(new Set(pids).size).toBeGreaterThan(1);
+    });
+
+    it('should broadcast notifications and tag forwarded events with the worker', async () => {
+      createPool({ minSize: 2 });
+      await pool.connect();
+
+      const received: Array<[string, number]> = [];
+      pool.on('notification', (method, _params, workerId) => received.push([method, workerId]));
+      // The fixture answers a `notify` notification with a notification of its own
+      pool.notify('notify');
+
+      await waitForCondition(() => received.length === 2, 2000, 10);
+      expect(received.map(([method]) => method)).toEqual(['testNotification', 'testNotification']);
+      expect(received.map(([, workerId]) => workerId).sort()).toEqual([1, 2]);
+    });
+  });
+
+  describe('scaling', () => {
+    it('should grow while all workers are busy and retire idle extras', async () => {
+      createPool({ minSize: 1, maxSize: 2, idleTimeout: 100 });
+      await pool.connect();
+
+      const started = waitForEvent<number>(pool, 'workerStart');
+      const first = pool.request('slow', { ms: 300 });
+      expect(await started).toBe(2);
+
+      const second = pool.request('slow', { ms: 100 });
+      expect(pool.getWorkers().map((worker) => worker.pending)).toEqual([1, 1]);
+      await Promise.all([first, second]);
+
+      await waitForCondition(() => pool.getWorkers().length === 1, 3000, 20);
+      expect(pool.getWorkers()).toEqual([{ id: 1, state: 'ready', pending: 0 }]);
+    });
+
+    it('should not grow past maxSize', async () => {
+      createPool({ minSize: 1, maxSize: 2 });
+      await pool.connect();
+
+      await Promise.all(Array.from({ length: 6 }, () => pool.request('slow', { ms: 50 })));
+
+      expect(pool.getWorkers().length).toBe(2);
+    });
+  });
+
+  describe('worker replacement', () => {
+    it('should replace workers that exit unexpectedly', async () => {
+      createPool({ minSize: 2, replaceWorkers: { initialDelay: 10, jitter: 0 } });
+      await pool.connect();
+
+      const exited = waitForEvent<number>(pool, 'workerExit');
+      const replaced = waitForEvent<number>(pool, 'workerStart');
+      await pool.request('exit', { code: 3 }).catch(() => {});
+
+      expect(await exited).toBe(1);
+      expect(await replaced).toBe(3);
+      expect(pool.getWorkers().map((worker) => worker.id)).toEqual([2, 3]);
+    });
+
+    it('should report exit details of the worker', async () => {
+      createPool({ replaceWorkers: false });
+      await pool.connect();
+
+      const details = new Promise<ProcessExitDetails>((resolve) => {
+        pool.once('workerExit', (_workerId, exitDetails) => resolve(exitDetails));
+      });
+      await pool.request('exit', { code: 7 }).catch(() => {});
+
+      expect((await details).code).toBe(7);
+      await delay(50);
+      expect(pool.getWorkers()).toEqual([]);
+      await expect(pool.request('echo')).rejects.toThrow('No workers available');
+    });
+  });
+});
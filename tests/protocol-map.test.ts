@@ -0,0 +1,135 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, expectTypeOf, it } from 'vitest';
+import { StdioClient } from '../src/client.js';
+import type { McpProtocol, McpTool } from '../src/mcp-types.js';
+import type { RequestHandlerContext } from '../src/types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const echoServerPath = join(__dirname, 'fixtures', 'echo-server.js');
+
+type EchoProtocol = {
+  requests: {
+    add: { params: { a: number; b: number }; result: { sum: number } };
+    ping: { result: 'pong' };
+    echo: { params?: unknown; result: unknown };
+  };
+  notifications: {
+    notify: { params?: Record<string, never> };
+  };
+  serverRequests: {
+    'client/info': { params: { verbose: boolean }; result: { name: string } };
+  };
+  serverNotifications: {
+    testNotification: { params: { message: string } };
+  };
+};
+
+describe('protocol maps', () => {
+  let client: StdioClient<EchoProtocol>;
+
+  afterEach(async () => {
+    if (client?.isConnected()) {
+      await client.disconnect();
+    }
+  });
+
+  it('should type request params and results from the map', async () => {
+    client = new StdioClient<EchoProtocol>({ command: 'node', args: [echoServerPath] });
+    await client.connect();
+
+    const sum = await client.request('add', { a: 2, b: 3 });
+    expectTypeOf(sum).toEqualTypeOf<{ sum: number }>();
+    expect(sum).toEqual({ sum: 5 });
+
+    const pong = await client.request('ping');
+    expectTypeOf(pong).toEqualTypeOf<'pong'>();
+    expect(pong).toBe('pong');
+  });
+
+  it('should type server notifications by method', async () => {
+    client = new StdioClient<EchoProtocol>({ command: 'node', args: [echoServerPath] });
+    await client.connect();
+
+    const received = new Promise<string>((resolve) => {
+      client.on('notification', (method, params) => {
+        if (method === 'testNotification') {
+          expectTypeOf(params).toEqualTypeOf<{ message: string }>();
+          resolve(params.message);
+        }
+      });
+    });
+    client.notify('notify');
+
+    await expect(received).resolves.toBe('Hello from server');
+  });
+
+  it('should reject unknown methods and wrong params at compile time', () => {
+    client = new StdioClient<EchoProtocol>({ command: 'node', args: [echoServerPath] });
+
+    const typeChecks = () => {
+      // @ts-expect-error - unknown request method
+      void client.request('substract', { a: 1, b: 2 });
+      // @ts-expect-error - wrong param shape
+      void client.request('add', { a: '1', b: 2 });
+      // @ts-expect-error - missing required params
+      void client.request('add');
+      // @ts-expect-error - unknown notification method
+      client.notify('nofity');
+      // @ts-expect-error - handler result does not match the map
+      client.onRequest('client/info', () => ({ title: 'x' }));
+    };
+
+    expect(typeChecks).toBeTypeOf('function');
+  });
+
+  it('should type server request handlers', () => {
+    client = new StdioClient<EchoProtocol>({ command: 'node', args: [echoServerPath] });
+
+    client.onRequest('client/info', (params, context) => {
+      expectTypeOf(params).toEqualTypeOf<{ verbose: boolean }>();
+      expectTypeOf(context).toEqualTypeOf<RequestHandlerContext>();
+      return { name: params.verbose ? 'test client (verbose)' : 'test client' };
+    });
+  });
+
+  it('should keep explicit result types and untyped clients working', async () => {
+    const untyped = new StdioClient({ command: 'node', args: [echoServerPath] });
+    await untyped.connect();
+
+    try {
+      const result = await untyped.request<{ sum: number }>('add', { a: 1, b: 1 });
+      expectTypeOf(result).toEqualTypeOf<{ sum: number }>();
+      expect(result.sum).toBe(2);
+
+      const anything = await untyped.request('whatever-method-name').catch(() => undefined);
+      expectTypeOf(anything).toEqualTypeOf<unknown>();
+
+      untyped.on('notification', (method, params) => {
+        expectTypeOf(method).toEqualTypeOf<string>();
+        expectTypeOf(params).toEqualTypeOf<unknown>();
+      });
+    } finally {
+      await untyped.disconnect();
+    }
+  });
+
+  it('should ship a map for MCP', () => {
+    const mcp = new StdioClient<McpProtocol>({ command: 'node', args: [echoServerPath] });
+
+    const typeChecks = async () => {
+      const { tools, nextCursor } = await mcp.request('tools/list', { cursor: 'next' });
+      expectTypeOf(tools).toEqualTypeOf<McpTool[]>();
+      expectTypeOf(nextCursor).toEqualTypeOf<string | undefined>();
+
+      // @ts-expect-error - tools/call requires a tool name
+      await mcp.request('tools/call', { arguments: {} });
+
+      mcp.notify('notifications/initialized');
+      mcp.onRequest('roots/list', () => ({ roots: [{ uri: 'file:///tmp' }] }));
+    };
+
+    expect(typeChecks).toBeTypeOf('function');
+  });
+});
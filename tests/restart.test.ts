@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RestartSupervisor } from '../src/restart.js';
+
+describe('RestartSupervisor', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should back off exponentially without jitter', () => {
+    const supervisor = new RestartSupervisor({ initialDelay: 100, factor: 2, jitter: 0 });
+
+    expect(supervisor.next(0)).toEqual({ attempt: 1, delay: 100 });
+    expect(supervisor.next(1)).toEqual({ attempt: 2, delay: 200 });
+    expect(supervisor.next(2)).toEqual({ attempt: 3, delay: 400 });
+  });
+
+  it('should cap the delay at maxDelay', () => {
+    const supervisor = new RestartSupervisor({
+      initialDelay: 1000,
+      maxDelay: 1500,
+      jitter: 0,
+      maxRestarts: 10,
+    });
+
+    supervisor.next(0);
+    expect(supervisor.next(1)?.delay).toBe(1500);
+  });
+
+  it('should spread delays by the jitter fraction', () => {
+    const supervisor = new RestartSupervisor({ initialDelay: 1000, jitter: 0.5 });
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(supervisor.next(0)?.delay).toBe(500);
+
+    supervisor.reset();
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(supervisor.next(0)?.delay).toBe(1500);
+  });
+
+  it('should give up once maxRestarts is reached within the window', () => {
+    const supervisor = new RestartSupervisor({ maxRestarts: 2, window: 1000 });
+
+    expect(supervisor.next(0)).not.toBeNull();
+    expect(supervisor.next(100)).not.toBeNull();
+    expect(supervisor.next(200)).toBeNull();
+  });
+
+  it('should forget restarts that fall outside the window', () => {
+    const supervisor = new RestartSupervisor({ maxRestarts: 2, window: 1000, jitter: 0 });
+
+    supervisor.next(0);
+    supervisor.next(100);
+
+    expect(supervisor.next(1500)).toEqual({ attempt: 1, delay: 500 });
+  });
+
+  it('should restart on any exit without an exit code filter', () => {
+    const supervisor = new RestartSupervisor({});
+
+    expect(supervisor.shouldRestart(0)).toBe(true);
+    expect(supervisor.shouldRestart(1)).toBe(true);
+    expect(supervisor.shouldRestart(null)).toBe(true);
+  });
+
+  it('should only restart on listed exit codes when filtered', () => {
+    const supervisor = new RestartSupervisor({ exitCodes: [1, 137] });
+
+    expect(supervisor.shouldRestart(1)).toBe(true);
+    expect(supervisor.shouldRestart(137)).toBe(true);
+    expect(supervisor.shouldRestart(0)).toBe(false);
+    expect(supervisor.shouldRestart(null)).toBe(false);
+    expect(supervisor.shouldRestart(null, 'SIGKILL')).toBe(false);
+  });
+
+  it('should restart signal-killed processes only when the signal is listed', () => {
+    const supervisor = new RestartSupervisor({ exitCodes: [1, 'SIGKILL'] });
+
+    expect(supervisor.shouldRestart(null, 'SIGKILL')).toBe(true);
+    expect(supervisor.shouldRestart(null, 'SIGTERM')).toBe(false);
+    expect(supervisor.shouldRestart(1, null)).toBe(true);
+    expect(new RestartSupervisor({}).shouldRestart(null, 'SIGTERM')).toBe(true);
+  });
+});
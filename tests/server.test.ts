@@ -0,0 +1,250 @@
+import { PassThrough } from 'node:stream';
+import { JSONRPCError } from '@gnana997/node-jsonrpc';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RequestCancelledError } from '../src/errors.js';
+import { ContentLengthMessageReader } from '../src/framing.js';
+import { StdioServer } from '../src/server.js';
+import type { StdioServerConfig } from '../src/types.js';
+import { waitForEvent } from './helpers.js';
+
+describe('StdioServer', () => {
+  let server: StdioServer;
+  let input: PassThrough;
+  let output: PassThrough;
+  let received: unknown[];
+
+  function createServer(config: StdioServerConfig = {}): StdioServer {
+    input = new PassThrough();
+    output = new PassThrough();
+    received = [];
+    output.on('data', (chunk: Buffer) => {
+      for (const line of chunk.toString('utf8').split('\n')) {
+        if (line) received.push(JSON.parse(line));
+      }
+    });
+
+    server = new StdioServer({ input, output, redirectConsole: false, ...config });
+    return server;
+  }
+
+  function send(message: unknown): void {
+    input.write(`${typeof message === 'string' ? message : JSON.stringify(message)}\n`);
+  }
+
+  async function nextMessage(): Promise<unknown> {
+    await vi.waitFor(() => expect(received.length).toBeGreaterThan(0), { timeout: 2000 });
+    return received.shift();
+  }
+
+  afterEach(() => {
+    server?.close();
+  });
+
+  describe('requests', () => {
+    it('should answer requests with the handler result', async () => {
+      createServer();
+      server.onRequest('add', (params) => {
+        const { a, b } = params as { a: number; b: number };
+        return { sum: a + b };
+      });
+      server.onRequest('nothing', async () => undefined);
+      server.listen();
+
+      send({ jsonrpc: '2.0', id: 1, method: 'add', params: { a: 2, b: 3 } });
+      expect(await nextMessage()).toEqual({ jsonrpc: '2.0', id: 1, result: { sum: 5 } });
+
+      send({ jsonrpc: '2.0', id: 'x', method: 'nothing' });
+      expect(await nextMessage()).toEqual({ jsonrpc: '2.0', id: 'x', result: null });
+    });
+
+    it('should answer with errors for unknown methods and failing handlers', async () => {
+      createServer();
+      server.onRequest('fail', () => {
+        throw new JSONRPCError(-32000, 'Custom failure', { reason: 'test' });
+      });
+      server.onRequest('crash', () => {
+        throw new Error('boom');
+      });
+      server.listen();
+
+      send({ jsonrpc: '2.0', id: 1, method: 'missing' });
+      expect(await nextMessage()).toEqual({
+        jsonrpc: '2.0',
+        id: 1,
+        error: { code: -32601, message: 'Method not found', data: { method: 'missing' } },
+      });
+
+      send({ jsonrpc: '2.0', id: 2, method: 'fail' });
+      expect(await nextMessage()).toEqual({
+        jsonrpc: '2.0',
+        id: 2,
+        error: { code: -32000, message: 'Custom failure', data: { reason: 'test' } },
+      });
+
+      send({ jsonrpc: '2.0', id: 3, method: 'crash' });
+      expect(await nextMessage()).toEqual({
+        jsonrpc: '2.0',
+        id: 3,
+        error: { code: -32603, message: 'boom' },
+      });
+    });
+
+    it('should answer malformed input per the spec', async () => {
+      createServer();
+      server.listen();
+
+      send('{not json');
+      expect(await nextMessage()).toEqual({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error' },
+      });
+
+      send({ jsonrpc: '2.0', id: 1 });
+      expect(await nextMessage()).toEqual({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Invalid Request' },
+      });
+
+      send([]);
+      expect(await nextMessage()).toMatchObject({ error: { code: -32600 } });
+    });
+
+    it('should answer batches with one array, leaving out notifications', async () => {
+      createServer();
+      server.onRequest('echo', (params) => params);
+      server.listen();
+
+      send([
+        { jsonrpc: '2.0', id: 1, method: 'echo', params: 'a' },
+        { jsonrpc: '2.0', method: 'log' },
+        { jsonrpc: '2.0', id: 2, method: 'echo', params: 'b' },
+      ]);
+
+      expect(await nextMessage()).toEqual([
+        { jsonrpc: '2.0', id: 1, result: 'a' },
+        { jsonrpc: '2.0', id: 2, result: 'b' },
+      ]);
+    });
+  });
+
+  describe('notifications', () => {
+    it('should run notification handlers and emit notification events', async () => {
+      createServer();
+      const handled: unknown[] = [];
+      server.onNotification('log', (params) => void handled.push(params));
+      server.listen();
+
+      const event = waitForEvent<string>(server, 'notification');
+      send({ jsonrpc: '2.0', method: 'log', params: { message: 'hi' } });
+
+      expect(await event).toBe('log');
+      expect(handled).toEqual([{ message: 'hi' }]);
+    });
+
+    it('should emit errors thrown by notification handlers', async () => {
+      createServer();
+      server.onNotification('log', async () => {
+        throw new Error('handler failed');
+      });
+      server.listen();
+
+      const error = waitForEvent<Error>(server, 'error');
+      send({ jsonrpc: '2.0', method: 'log' });
+
+      expect((await error).message).toBe('handler failed');
+    });
+
+    it('should send notifications to the parent', async () => {
+      createServer();
+      server.listen();
+
+      server.notify('progress', { done: 1 });
+
+      expect(await nextMessage()).toEqual({
+        jsonrpc: '2.0',
+        method: 'progress',
+        params: { done: 1 },
+      });
+    });
+  });
+
+  describe('requests to the parent', () => {
+    it('should resolve with the result or reject with the error of the response', async () => {
+      createServer();
+      server.listen();
+
+      const ok = server.request('roots/list');
+      const sent = (await nextMessage()) as { id: number; method: string };
+      expect(sent).toMatchObject({ jsonrpc: '2.0', method: 'roots/list' });
+      send({ jsonrpc: '2.0', id: sent.id, result: { roots: [] } });
+      await expect(ok).resolves.toEqual({ roots: [] });
+
+      const failed = server.request('missing');
+      const { id } = (await nextMessage()) as { id: number };
+      send({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } });
+      await expect(failed).rejects.toBeInstanceOf(JSONRPCError);
+    });
+
+    it('should time out, abort and reject on close', async () => {
+      createServer({ requestTimeout: 30 });
+      server.listen();
+
+      await expect(server.request('slow')).rejects.toThrow('Request timeout after 30ms: slow');
+
+      const controller = new AbortController();
+      const aborted = server.request('slow', undefined, { signal: controller.signal });
+      controller.abort();
+      await expect(aborted).rejects.toBeInstanceOf(RequestCancelledError);
+
+      const pending = server.request('slow', undefined, { timeout: 1000 });
+      server.close();
+      await expect(pending).rejects.toThrow('Server closed before response to slow');
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should close when the input ends', async () => {
+      createServer();
+      server.listen();
+
+      const closed = waitForEvent(server, 'close');
+      input.end();
+      await closed;
+
+      expect(server.isListening()).toBe(false);
+    });
+
+    it('should swap the stdout console methods while listening', () => {
+      const originals = [console.log, console.info, console.debug, console.dir, console.table];
+      createServer({ redirectConsole: true });
+
+      server.listen();
+      expect(console.log).not.toBe(originals[0]);
+      expect(console.table).not.toBe(originals[4]);
+      server.close();
+
+      expect([console.log, console.info, console.debug, console.dir, console.table]).toEqual(
+        originals
+      );
+    });
+
+    it('should use Content-Length framing', async () => {
+      createServer({ framing: 'content-length' });
+      server.onRequest('ping', () => 'pong');
+      server.listen();
+
+      const reader = new ContentLengthMessageReader();
+      const messages: string[] = [];
+      output.removeAllListeners('data');
+      output.on('data', (chunk: Buffer) => messages.push(...reader.push(chunk)));
+
+      const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' });
+      input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+
+      await vi.waitFor(() => expect(messages).toHaveLength(1));
+      expect(JSON.parse(messages[0] as string)).toEqual({ jsonrpc: '2.0', id: 1, result: 'pong' });
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { type Server, type Socket, connect, createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { afterEach, describe, expect, it } from 'vitest';
+import { StdioClient } from '../src/client.js';
+import { ProtocolError } from '../src/errors.js';
+import { ContentLengthMessageReader } from '../src/framing.js';
+import { StdioServer } from '../src/server.js';
+import { StreamTransport } from '../src/stream-transport.js';
+import { delay, waitForEvent } from './helpers.js';
+
+describe('StreamTransport', () => {
+  let transport: StreamTransport;
+
+  afterEach(async () => {
+    await transport?.disconnect();
+  });
+
+  describe('with a PassThrough pair', () => {
+    let fromPeer: PassThrough;
+    let toPeer: PassThrough;
+
+    function createTransport(config: ConstructorParameters<typeof StreamTransport>[0] = {}) {
+      fromPeer = new PassThrough();
+      toPeer = new PassThrough();
+      transport = new StreamTransport({
+        streams: { readable: fromPeer, writable: toPeer },
+        ...config,
+      });
+      return transport;
+    }
+
+    it('should emit framed messages and write framed messages', async () => {
+      createTransport();
+      await transport.connect();
+      expect(transport.isConnected()).toBe(true);
+
+      const message = waitForEvent<string>(transport, 'message');
+      fromPeer.write('{"jsonrpc":"2.0","method":"hello"}\n');
+      expect(JSON.parse(await message)).toEqual({ jsonrpc: '2.0', method: 'hello' });
+
+      await transport.write('{"jsonrpc":"2.0","id":1,"method":"ping"}');
+      expect(toPeer.read().toString()).toBe('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    });
+
+    it('should use Content-Length framing', async () => {
+      createTransport({ framing: 'content-length' });
+      await transport.connect();
+
+      await transport.write('{"jsonrpc":"2.0","method":"initialized"}');
+      const reader = new ContentLengthMessageReader();
+      expect(reader.push(toPeer.read())).toEqual(['{"jsonrpc":"2.0","method":"initialized"}']);
+    });
+
+    it('should report frames that are not JSON-RPC as protocol errors', async () => {
+      createTransport();
+      await transport.connect();
+
+      const protocolError = waitForEvent<ProtocolError>(transport, 'protocolError');
+      fromPeer.write('not json\n');
+
+      expect(await protocolError).toBeInstanceOf(ProtocolError);
+      expect((await protocolError).reason).toBe('invalid-json');
+    });
+
+    it('should close when the readable stream ends', async () => {
+      createTransport();
+      await transport.connect();
+
+      const closed = waitForEvent(transport, 'close');
+      fromPeer.end();
+      await closed;
+
+      expect(transport.isConnected()).toBe(false);
+      await expect(transport.write('{}')).rejects.toThrow('Cannot send - not connected');
+      await expect(transport.connect()).rejects.toThrow('Streams are already closed');
+    });
+
+    it('should end the writable stream on disconnect', async () => {
+      createTransport();
+      await transport.connect();
+
+      const finished = waitForEvent(toPeer, 'finish');
+      toPeer.resume();
+      await transport.disconnect();
+      await finished;
+
+      expect(transport.isConnected()).toBe(false);
+    });
+  });
+
+  it('should hold writes under the wait policy until the queue has room', async () => {
+    const fromPeer = new PassThrough();
+    const toPeer = new PassThrough({ highWaterMark: 16 });
+    transport = new StreamTransport({
+      streams: { readable: fromPeer, writable: toPeer },
+      writeQueue: { highWaterMark: 100 },
+    });
+    await transport.connect();
+    const messages = [40, 60, 60, 10].map((size, index) =>
+      JSON.stringify({ index, pad: 'x'.repeat(size) })
+    );
+
+    const settled: number[] = [];
+    const writes = messages.map((message, index) =>
+      transport.write(message).then(() => void settled.push(index))
+    );
+
+    // The first goes to the stream, the second fits the queue, the rest are held
+    const queued = Buffer.byteLength(messages[1] as string) + 1;
+    expect(transport.getWriteQueueSize()).toEqual({ messages: 1, bytes: queued });
+    await delay(10);
+    expect(settled).not.toContain(2);
+    expect(settled).not.toContain(3);
+
+    const received: string[] = [];
+    toPeer.on('data', (chunk: Buffer) => received.push(chunk.toString()));
+    await Promise.all(writes);
+
+    expect(settled).toEqual([0, 1, 2, 3]);
+    expect(received.join('')).toBe(messages.map((message) => `${message}\n`).join(''));
+    expect(transport.getWriteQueueSize()).toEqual({ messages: 0, bytes: 0 });
+  });
+
+  it('should reject connect() without streams', async () => {
+    transport = new StreamTransport();
+    await expect(transport.connect()).rejects.toThrow('No streams configured');
+  });
+
+  describe('over a Unix domain socket', () => {
+    const socketPath = join(tmpdir(), `stream-transport-${process.pid}.sock`);
+    let server: Server;
+    let peers: StdioServer[];
+    let sockets: Socket[];
+
+    function listen(): Promise<void> {
+      peers = [];
+      sockets = [];
+      server = createServer((socket) => {
+        const peer = new StdioServer({ input: socket, output: socket, redirectConsole: false });
+        peer.onRequest('echo', (params) => params);
+        peer.onRequest('ask', () => peer.request('roots/list'));
+        peer.onRequest('hang', () => new Promise(() => {}));
+        peer.listen();
+        peers.push(peer);
+        sockets.push(socket);
+      });
+      return new Promise((resolve) => server.listen(socketPath, resolve));
+    }
+
+    afterEach(async () => {
+      for (const peer of peers ?? []) peer.close();
+      for (const socket of sockets ?? []) socket.destroy();
+      await new Promise((resolve) => server?.close(resolve));
+    });
+
+    it('should run a StdioClient over a socket in both directions', async () => {
+      await listen();
+      const client = new StdioClient({ streams: () => connect(socketPath) });
+      client.onRequest('roots/list', () => ({ roots: [] }));
+
+      await client.connect();
+      expect(client.isConnected()).toBe(true);
+      expect(await client.request('echo', { value: 1 })).toEqual({ value: 1 });
+      expect(await client.request('ask')).toEqual({ roots: [] });
+
+      await client.disconnect();
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should reject pending requests and reconnect when the socket closes', async () => {
+      await listen();
+      const client = new StdioClient({
+        streams: () => connect(socketPath),
+        restart: { initialDelay: 10, jitter: 0 },
+      });
+      await client.connect();
+
+      const pending = client.request('hang');
+      const restarted = waitForEvent(client, 'restarted');
+      sockets[0]?.end();
+
+      await expect(pending).rejects.toThrow('Connection closed before response to hang');
+      await restarted;
+      expect(await client.request('echo', 'again')).toBe('again');
+      await client.disconnect();
+    });
+
+    it('should reject connect() when the socket cannot connect', async () => {
+      transport = new StreamTransport({ streams: () => connect(`${socketPath}.missing`) });
+      await expect(transport.connect()).rejects.toThrow(/ENOENT/);
+    });
+  });
+
+  it('should require command or streams in StdioClient', () => {
+    expect(() => new StdioClient({})).toThrow('Either command, process or streams is required');
+  });
+});
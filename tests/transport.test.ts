@@ -1,12 +1,19 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProcessExitedError, ProtocolError } from '../src/errors.js';
 import { StdioTransport } from '../src/transport.js';
-import { delay, waitForEvent } from './helpers.js';
+import type { ProcessExitDetails, ProcessSpawnOptions } from '../src/types.js';
+import { delay, waitForCondition, waitForEvent } from './helpers.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const echoServerPath = join(__dirname, 'fixtures', 'echo-server.js');
+const lspServerPath = join(__dirname, 'fixtures', 'lsp-server.js');
 
 describe('StdioTransport', () => {
   let transport: StdioTransport;
@@ -99,6 +106,120 @@ describe('StdioTransport', () => {
     });
   });
 
+  describe('readiness', () => {
+    it('should wait for a pattern on stderr', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [echoServerPath],
+        readiness: { pattern: /waiting for requests/ },
+      });
+
+      await transport.connect();
+
+      expect(transport.isConnected()).toBe(true);
+    });
+
+    it('should wait for a pattern on stdout', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['-e', "setTimeout(() => console.log('READY'), 100); setInterval(() => {}, 1000)"],
+        readiness: { pattern: /READY/, stream: 'stdout' },
+      });
+
+      await transport.connect();
+
+      expect(transport.isConnected()).toBe(true);
+    });
+
+    it('should time out when the pattern never appears', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [echoServerPath],
+        connectionTimeout: 300,
+        readiness: { pattern: /never printed/ },
+      });
+
+      await expect(transport.connect()).rejects.toThrow('Connection timeout after 300ms');
+      expect(transport.isConnected()).toBe(false);
+    });
+
+    it('should wait for a ready notification and still emit it', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [
+          '-e',
+          "setTimeout(() => console.log(JSON.stringify({ jsonrpc: '2.0', method: 'server/ready' })), 100); setInterval(() => {}, 1000)",
+        ],
+        readiness: { notification: 'server/ready' },
+      });
+
+      const messagePromise = waitForEvent<string>(transport, 'message', 2000);
+      await transport.connect();
+
+      expect(transport.isConnected()).toBe(true);
+      expect(JSON.parse(await messagePromise)).toEqual({ jsonrpc: '2.0', method: 'server/ready' });
+    });
+
+    it('should wait for a probe request to succeed without emitting its response', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [echoServerPath],
+        readiness: { probe: 'ping' },
+      });
+
+      const messages: string[] = [];
+      transport.on('message', (message: string) => messages.push(message));
+      await transport.connect();
+      await delay(100);
+
+      expect(transport.isConnected()).toBe(true);
+      expect(messages).toEqual([]);
+    });
+
+    it('should retry the probe until it succeeds', async () => {
+      const server = `
+        let calls = 0;
+        require('node:readline').createInterface({ input: process.stdin }).on('line', (line) => {
+          const { id } = JSON.parse(line);
+          const reply = ++calls < 3
+            ? { jsonrpc: '2.0', id, error: { code: -32002, message: 'Not ready' } }
+            : { jsonrpc: '2.0', id, result: calls };
+          console.log(JSON.stringify(reply));
+        });
+      `;
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['--input-type=commonjs', '-e', server],
+        readiness: { probe: 'ping', interval: 20 },
+      });
+
+      await transport.connect();
+
+      expect(transport.isConnected()).toBe(true);
+    });
+
+    it('should re-send a probe that gets no answer', async () => {
+      const server = `
+        let calls = 0;
+        require('node:readline').createInterface({ input: process.stdin }).on('line', (line) => {
+          const { id } = JSON.parse(line);
+          // Ignore the first probe entirely
+          if (++calls > 1) console.log(JSON.stringify({ jsonrpc: '2.0', id, result: calls }));
+        });
+      `;
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['--input-type=commonjs', '-e', server],
+        readiness: { probe: 'ping', interval: 20 },
+        connectionTimeout: 2000,
+      });
+
+      await transport.connect();
+
+      expect(transport.isConnected()).toBe(true);
+    });
+  });
+
   describe('send', () => {
     beforeEach(async () => {
       transport = new StdioTransport({
@@ -137,6 +258,119 @@ describe('StdioTransport', () => {
     });
   });
 
+  describe('write queue', () => {
+    // A child that never reads stdin, so the pipe fills up and applies backpressure
+    const idleServer = ['-e', 'setInterval(() => {}, 1000)'];
+    const large = JSON.stringify({ jsonrpc: '2.0', method: 'big', params: 'x'.repeat(256 * 1024) });
+    const small = JSON.stringify({ jsonrpc: '2.0', method: 'small' });
+
+    it('should resolve once the message is written', async () => {
+      transport = new StdioTransport({ command: 'node', args: [echoServerPath] });
+      await transport.connect();
+
+      await expect(
+        transport.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }))
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject when not connected', async () => {
+      transport = new StdioTransport({ command: 'node', args: [echoServerPath] });
+
+      await expect(transport.write(small)).rejects.toThrow('not connected');
+    });
+
+    it('should queue messages while stdin applies backpressure', async () => {
+      transport = new StdioTransport({ command: 'node', args: idleServer });
+      await transport.connect();
+
+      void transport.write(large).catch(() => {});
+      void transport.write(small).catch(() => {});
+
+      expect(transport.getWriteQueueSize()).toEqual({
+        messages: 1,
+        bytes: Buffer.byteLength(small) + 1,
+      });
+    });
+
+    it('should reject writes once the queue is full with the reject policy', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: idleServer,
+        writeQueue: { highWaterMark: 1024, overflow: 'reject' },
+      });
+      await transport.connect();
+
+      void transport.write(large).catch(() => {});
+      void transport.write(small).catch(() => {});
+
+      await expect(transport.write(large)).rejects.toThrow('Write queue full');
+      expect(transport.getWriteQueueSize().messages).toBe(1);
+    });
+
+    it('should drop notifications once the queue is full with the drop-notifications policy', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: idleServer,
+        writeQueue: { highWaterMark: 1024, overflow: 'drop-notifications' },
+      });
+      await transport.connect();
+
+      void transport.write(large).catch(() => {});
+
+      await expect(transport.write(large, { notification: true })).resolves.toBeUndefined();
+      expect(transport.getWriteQueueSize().messages).toBe(0);
+
+      void transport.write(large).catch(() => {});
+      expect(transport.getWriteQueueSize().messages).toBe(1);
+    });
+
+    it('should reject queued writes when the process exits', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['-e', 'setTimeout(() => process.exit(0), 300)'],
+      });
+      await transport.connect();
+
+      void transport.write(large).catch(() => {});
+      const queued = transport.write(small);
+
+      await expect(queued).rejects.toThrow('Process exited before message was written');
+      expect(transport.getWriteQueueSize()).toEqual({ messages: 0, bytes: 0 });
+    });
+  });
+
+  describe('content-length framing', () => {
+    beforeEach(async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [lspServerPath],
+        framing: 'content-length',
+      });
+      await transport.connect();
+    });
+
+    it('should exchange Content-Length framed messages', async () => {
+      const messagePromise = waitForEvent<string>(transport, 'message', 2000);
+
+      transport.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+
+      const parsed = JSON.parse(await messagePromise);
+      expect(parsed.result).toBe('pong');
+      expect(parsed.id).toBe(1);
+    });
+
+    it('should preserve multi-byte characters', async () => {
+      const messagePromise = waitForEvent<string>(transport, 'message', 2000);
+
+      transport.send(
+        JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'echo', params: { text: 'héllo 🚀' } })
+      );
+
+      const parsed = JSON.parse(await messagePromise);
+      expect(parsed.result).toEqual({ text: 'héllo 🚀' });
+    });
+  });
+
   describe('disconnect', () => {
     it('should disconnect from child process', async () => {
       transport = new StdioTransport({
@@ -173,6 +407,460 @@ describe('StdioTransport', () => {
 
       await expect(transport.disconnect()).resolves.toBeUndefined();
     });
+
+    it('should resolve with the exit info once the process exits on stdin EOF', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [echoServerPath],
+      });
+      await transport.connect();
+
+      const exitInfo = await transport.disconnect();
+
+      expect(exitInfo).toEqual({ code: 0, signal: null });
+    });
+
+    it('should send SIGTERM when the process ignores stdin EOF', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['-e', 'setInterval(() => {}, 1000)'],
+        shutdown: { gracePeriod: 50 },
+      });
+      await transport.connect();
+
+      const exitInfo = await transport.disconnect();
+
+      expect(exitInfo).toEqual({ code: null, signal: 'SIGTERM' });
+    });
+
+    it('should escalate to SIGKILL when the process ignores SIGTERM', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [
+          '-e',
+          "process.on('SIGTERM', () => {}); console.error('ready'); setInterval(() => {}, 1000)",
+        ],
+        readiness: { pattern: /ready/ },
+        shutdown: { gracePeriod: 50, killTimeout: 100 },
+      });
+      await transport.connect();
+
+      const exitInfo = await transport.disconnect();
+
+      expect(exitInfo).toEqual({ code: null, signal: 'SIGKILL' });
+    });
+
+    it('should skip closing stdin when configured', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [echoServerPath],
+        shutdown: { closeStdin: false },
+      });
+      await transport.connect();
+
+      const exitInfo = await transport.disconnect();
+
+      expect(exitInfo).toEqual({ code: null, signal: 'SIGTERM' });
+    });
+  });
+
+  describe('protocol errors', () => {
+    // A server that writes `output` to stdout once it receives anything on stdin
+    const printer = (output: string) => [
+      '-e',
+      `process.stdin.once('data', () => process.stdout.write(${JSON.stringify(output)}))`,
+    ];
+    const trigger = JSON.stringify({ jsonrpc: '2.0', method: 'go' });
+    const valid = '{"jsonrpc":"2.0","method":"ok"}';
+
+    it('should emit protocolError instead of message for non-JSON-RPC lines', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: printer(`not json\n{"hello":"world"}\n${valid}\n`),
+      });
+      await transport.connect();
+
+      const errors: ProtocolError[] = [];
+      const messages: string[] = [];
+      transport.on('protocolError', (error: ProtocolError) => errors.push(error));
+      transport.on('message', (message: string) => messages.push(message));
+
+      const received = waitForEvent(transport, 'message', 2000);
+      transport.send(trigger);
+      await received;
+
+      expect(messages).toEqual([valid]);
+      expect(errors.map((error) => [error.reason, error.snippet])).toEqual([
+        ['invalid-json', 'not json'],
+        ['invalid-message', '{"hello":"world"}'],
+      ]);
+    });
+
+    it('should emit non-JSON lines as stdout logs with stdoutNoise log', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: printer(`npm notice installing\n${valid}\n{"hello":"world"}\n`),
+        stdoutNoise: 'log',
+      });
+      await transport.connect();
+
+      const logs: unknown[][] = [];
+      const errors: ProtocolError[] = [];
+      transport.on('log', (...args: unknown[]) => logs.push(args));
+      transport.on('protocolError', (error: ProtocolError) => errors.push(error));
+
+      const received = waitForEvent<string>(transport, 'message', 2000);
+      transport.send(trigger);
+
+      expect(await received).toBe(valid);
+      await delay(100);
+      expect(logs).toContainEqual(['npm notice installing', { stream: 'stdout' }]);
+      // Valid JSON that is not JSON-RPC is still a protocol error
+      expect(errors.map((error) => error.reason)).toEqual(['invalid-message']);
+    });
+
+    it('should drop non-JSON lines with stdoutNoise ignore', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: printer(`Welcome!\n${valid}\n`),
+        stdoutNoise: 'ignore',
+      });
+      await transport.connect();
+
+      let events = 0;
+      transport.on('protocolError', () => events++);
+      transport.on('log', (_message: string, info: { stream: string }) => {
+        if (info.stream === 'stdout') events++;
+      });
+
+      const received = waitForEvent<string>(transport, 'message', 2000);
+      transport.send(trigger);
+
+      expect(await received).toBe(valid);
+      expect(events).toBe(0);
+    });
+
+    it('should drop oversized messages and keep reading with the drop policy', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: printer(`${'x'.repeat(5000)}\n${valid}\n`),
+        maxMessageBytes: 1024,
+        oversizePolicy: 'drop',
+      });
+      await transport.connect();
+
+      const protocolError = waitForEvent<ProtocolError>(transport, 'protocolError', 2000);
+      const received = waitForEvent<string>(transport, 'message', 2000);
+      transport.send(trigger);
+
+      const error = await protocolError;
+      expect(error).toBeInstanceOf(ProtocolError);
+      expect(error.reason).toBe('oversize');
+      expect(error.bytes).toBeGreaterThan(1024);
+      expect(error.snippet).toBe('x'.repeat(200));
+      expect(await received).toBe(valid);
+    });
+
+    it('should emit error for oversized messages with the error policy', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: printer(`${'x'.repeat(5000)}\n`),
+        maxMessageBytes: 1024,
+      });
+      await transport.connect();
+
+      const error = waitForEvent<Error>(transport, 'error', 2000);
+      transport.send(trigger);
+
+      await expect(error).resolves.toMatchObject({ name: 'ProtocolError', reason: 'oversize' });
+    });
+
+    it('should kill the process on an oversized message with the kill policy', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: printer(`${'x'.repeat(5000)}\n`),
+        maxMessageBytes: 1024,
+        oversizePolicy: 'kill',
+      });
+      await transport.connect();
+
+      const closed = new Promise<unknown[]>((resolve) => {
+        transport.once('close', (...args: unknown[]) => resolve(args));
+      });
+      transport.send(trigger);
+
+      expect(await closed).toEqual([null, 'SIGKILL']);
+      expect(transport.isConnected()).toBe(false);
+    });
+  });
+
+  describe('environment', () => {
+    // Prints the variables it was given to stderr, then idles
+    const printEnv =
+      "console.error('env ' + JSON.stringify(process.env)); setInterval(() => {}, 1000)";
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'stdio-transport-env-'));
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function childEnv(
+      config: Omit<ConstructorParameters<typeof StdioTransport>[0], 'command'>
+    ): Promise<Record<string, string>> {
+      transport = new StdioTransport({
+        command: process.execPath,
+        args: ['-e', printEnv],
+        readiness: { pattern: /^env / },
+        cwd: dir,
+        ...config,
+      });
+      await transport.connect();
+      return JSON.parse(transport.getRecentLogs()[0]?.message.slice(4) ?? '{}');
+    }
+
+    it('should merge env files and env into the inherited environment', async () => {
+      writeFileSync(join(dir, '.env'), 'FROM_FILE=file\nOVERRIDDEN=file\n');
+
+      const env = await childEnv({
+        envStrategy: 'merge',
+        envFile: '.env',
+        env: { OVERRIDDEN: 'env' },
+      });
+
+      expect(env).toMatchObject({ FROM_FILE: 'file', OVERRIDDEN: 'env', PATH: process.env.PATH });
+    });
+
+    it('should only inherit allowlisted variables', async () => {
+      const env = await childEnv({ envStrategy: { inherit: ['PATH'] }, env: { EXTRA: '1' } });
+
+      expect(env).toEqual({ PATH: process.env.PATH, EXTRA: '1' });
+    });
+
+    it('should reject connect() when an env file is missing', async () => {
+      transport = new StdioTransport({ command: 'node', cwd: dir, envFile: 'missing.env' });
+
+      await expect(transport.connect()).rejects.toThrow(/Cannot read env file .*missing\.env/);
+    });
+
+    it('should redact secrets in debug logs and exit details', async () => {
+      const logged: string[] = [];
+      vi.spyOn(console, 'log').mockImplementation((...args) => void logged.push(args.join(' ')));
+      // The secret also shows up in the command line, which is logged on spawn
+      transport = new StdioTransport({
+        command: 'node',
+        args: [
+          '-e',
+          "console.error('using ' + process.env.SERVICE_TOKEN); process.exit(1)",
+          'tok-123456',
+        ],
+        envStrategy: 'merge',
+        env: { SERVICE_TOKEN: 'tok-123456' },
+        debug: true,
+      });
+      const exited = waitForEvent<ProcessExitDetails>(transport, 'exit');
+      await transport.connect();
+
+      expect((await exited).stderr).toEqual(['using [redacted]']);
+      expect(logged.some((line) => line.includes('[redacted]'))).toBe(true);
+      expect(logged.filter((line) => line.includes('tok-123456'))).toEqual([]);
+    });
+  });
+
+  describe('spawn options', () => {
+    // Answers `ping` requests read from fd 3 on fd 3, and prints a banner to stdout
+    const fd3Server = [
+      "const { Socket } = require('node:net');",
+      "const { createInterface } = require('node:readline');",
+      'const channel = new Socket({ fd: 3, readable: true, writable: true });',
+      "console.log('banner on stdout');",
+      "createInterface({ input: channel }).on('line', (line) => {",
+      '  const { id } = JSON.parse(line);',
+      "  channel.write(JSON.stringify({ jsonrpc: '2.0', id, result: 'pong' }) + '\\n');",
+      '});',
+    ].join('\n');
+
+    function isRunning(pid: number): boolean {
+      try {
+        process.kill(pid, 0);
+      } catch {
+        return false;
+      }
+      // An orphan that nobody reaped yet still answers signal 0
+      try {
+        return readFileSync(`/proc/${pid}/stat`, 'utf8').split(' ')[2] !== 'Z';
+      } catch {
+        return true;
+      }
+    }
+
+    it('should reject invalid options', () => {
+      const create = (spawn: ProcessSpawnOptions) => new StdioTransport({ command: 'node', spawn });
+
+      expect(() => create({ uid: -1 })).toThrow('spawn.uid must be a non-negative integer');
+      expect(() => create({ shell: '' })).toThrow('spawn.shell must be a boolean');
+      expect(() => create({ killSignal: 'SIGNOPE' as NodeJS.Signals })).toThrow(
+        'spawn.killSignal is not a known signal: SIGNOPE'
+      );
+      expect(() => create({ messageFds: { input: 1 } })).toThrow(
+        'spawn.messageFds.input must be 0 or a descriptor from 3 up'
+      );
+      expect(() => create({ messageFds: { output: 3 } })).toThrow(
+        "spawn.messageFds.output (fd 3) must be a 'pipe' in spawn.extraStdio"
+      );
+    });
+
+    it('should run the command in a shell', async () => {
+      transport = new StdioTransport({
+        command: `node "${echoServerPath}"`,
+        spawn: { shell: true },
+      });
+      await transport.connect();
+
+      const response = waitForEvent<string>(transport, 'message');
+      transport.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'echo', params: 'hi' }));
+
+      expect(JSON.parse(await response)).toMatchObject({ id: 1 });
+    });
+
+    it('should pass argv0 to the child', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['-e', 'console.error(process.argv0); setInterval(() => {}, 1000)'],
+        readiness: { pattern: /custom-name/ },
+        spawn: { argv0: 'custom-name' },
+      });
+
+      await transport.connect();
+      expect(transport.getRecentLogs()[0]?.message).toBe('custom-name');
+    });
+
+    it('should exchange messages over an extra file descriptor', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['-e', fd3Server],
+        spawn: { extraStdio: ['pipe'], messageFds: { input: 3, output: 3 } },
+      });
+      const banner = waitForEvent<string>(transport, 'log');
+      await transport.connect();
+
+      const response = waitForEvent<string>(transport, 'message');
+      transport.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+
+      expect(JSON.parse(await response)).toEqual({ jsonrpc: '2.0', id: 1, result: 'pong' });
+      expect(await banner).toBe('banner on stdout');
+      expect(transport.getRecentLogs()[0]?.stream).toBe('stdout');
+    });
+
+    it('should stop with killSignal', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [
+          '-e',
+          "process.on('SIGINT', () => process.exit(5)); console.error('ready'); setInterval(() => {}, 1000)",
+        ],
+        readiness: { pattern: /ready/ },
+        shutdown: { closeStdin: false },
+        spawn: { killSignal: 'SIGINT' },
+      });
+      await transport.connect();
+
+      expect(await transport.disconnect()).toEqual({ code: 5, signal: null });
+    });
+
+    it.skipIf(process.platform === 'win32')(
+      'should signal the whole process group of a detached process',
+      async () => {
+        transport = new StdioTransport({
+          command: 'node',
+          args: [
+            '-e',
+            [
+              "const { spawn } = require('node:child_process');",
+              "const child = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });",
+              "console.error('grandchild ' + child.pid);",
+              'setInterval(() => {}, 1000);',
+            ].join('\n'),
+          ],
+          readiness: { pattern: /grandchild \d+/ },
+          shutdown: { closeStdin: false },
+          spawn: { detached: true },
+        });
+        await transport.connect();
+        const grandchild = Number(transport.getRecentLogs()[0]?.message.split(' ')[1]);
+        expect(isRunning(grandchild)).toBe(true);
+
+        await transport.disconnect();
+
+        await waitForCondition(() => !isRunning(grandchild), 2000, 20);
+      }
+    );
+  });
+
+  describe('adopting a child process', () => {
+    let child: ChildProcess;
+
+    afterEach(() => {
+      child?.kill('SIGKILL');
+    });
+
+    function ping(id: number): Promise<unknown> {
+      const response = waitForEvent<string>(transport, 'message', 2000);
+      transport.send(JSON.stringify({ jsonrpc: '2.0', id, method: 'ping' }));
+      return response.then((message) => JSON.parse(message).result);
+    }
+
+    it('should talk to an adopted process and stop it on disconnect', async () => {
+      child = spawn('node', [echoServerPath], { stdio: ['pipe', 'pipe', 'pipe'] });
+      transport = StdioTransport.fromChildProcess(child, {
+        readiness: { pattern: /waiting for requests/ },
+      });
+
+      await transport.connect();
+      expect(await ping(1)).toBe('pong');
+
+      await transport.disconnect();
+      expect(child.exitCode !== null || child.signalCode !== null).toBe(true);
+    });
+
+    it('should leave the process running with killOnDisconnect false', async () => {
+      child = spawn('node', [echoServerPath], { stdio: ['pipe', 'pipe', 'pipe'] });
+      transport = StdioTransport.fromChildProcess(child, { killOnDisconnect: false });
+      await transport.connect();
+
+      const closed = waitForEvent(transport, 'close');
+      expect(await transport.disconnect()).toBeUndefined();
+      await closed;
+      await delay(100);
+
+      expect(child.exitCode).toBeNull();
+      expect(transport.isConnected()).toBe(false);
+
+      // The same process can be adopted again
+      await transport.connect();
+      expect(await ping(2)).toBe('pong');
+    });
+
+    it('should reject processes without pipes or that have exited', async () => {
+      child = spawn('node', ['-e', 'setTimeout(() => {}, 5000)'], { stdio: 'ignore' });
+      await expect(StdioTransport.fromChildProcess(child).connect()).rejects.toThrow(
+        'Adopted process needs piped stdin and stdout'
+      );
+
+      const exited = spawn('node', ['-e', 'process.exit(3)']);
+      await once(exited, 'close');
+      await expect(StdioTransport.fromChildProcess(exited).connect()).rejects.toThrow(
+        /exited with code 3 before it was adopted/
+      );
+    });
+
+    it('should require command or process', () => {
+      expect(() => new StdioTransport({})).toThrow('Either command or process is required');
+    });
   });
 
   describe('error handling', () => {
@@ -188,7 +876,7 @@ describe('StdioTransport', () => {
     it('should handle process exit gracefully', async () => {
       transport = new StdioTransport({
         command: 'node',
-        args: ['-e', 'setTimeout(() => process.exit(0), 150)'], // Exit after connection establishes (100ms)
+        args: ['-e', 'setTimeout(() => process.exit(0), 150)'], // Exit shortly after the process has spawned
       });
 
       const closePromise = waitForEvent(transport, 'close', 2000);
@@ -198,6 +886,41 @@ describe('StdioTransport', () => {
 
       expect(transport.isConnected()).toBe(false);
     });
+
+    it('should emit exit with pid, uptime and the stderr tail', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [
+          '-e',
+          "for (let i = 1; i <= 25; i++) console.error('line ' + i); setTimeout(() => process.exit(7), 150)",
+        ],
+      });
+
+      const exitPromise = waitForEvent<ProcessExitDetails>(transport, 'exit', 2000);
+      await transport.connect();
+      const details = await exitPromise;
+
+      expect(details.code).toBe(7);
+      expect(details.signal).toBeNull();
+      expect(details.pid).toBeGreaterThan(0);
+      expect(details.uptime).toBeGreaterThanOrEqual(100);
+      expect(details.stderr).toHaveLength(20);
+      expect(details.stderr.at(-1)).toBe('line 25');
+    });
+
+    it('should reject connect with ProcessExitedError when the process exits while connecting', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['-e', "console.error('bad config'); process.exit(2)"],
+        readiness: { pattern: /ready/ },
+      });
+
+      const error = await transport.connect().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ProcessExitedError);
+      expect(error).toMatchObject({ code: 2, stderr: ['bad config'] });
+      expect((error as Error).message).toMatch(/exited with code 2 during connection$/);
+    });
   });
 
   describe('logging', () => {
@@ -214,5 +937,65 @@ describe('StdioTransport', () => {
       const logMessage = await logPromise;
       expect(logMessage).toBeTruthy();
     });
+
+    it('should tag stderr logs with their stream', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: ['-e', "console.error('booting'); setInterval(() => {}, 1000)"],
+      });
+
+      const logPromise = new Promise<unknown[]>((resolve) => {
+        transport.once('log', (...args: unknown[]) => resolve(args));
+      });
+      await transport.connect();
+
+      expect(await logPromise).toEqual(['booting', { stream: 'stderr' }]);
+    });
+
+    it('should emit one log event per stderr line across writes', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [
+          '-e',
+          "process.stderr.write('Error: boom\\n    at a'); setTimeout(() => process.stderr.write('b (x.js:1:1)\\ndone\\n'), 50); setInterval(() => {}, 1000)",
+        ],
+      });
+
+      const lines: string[] = [];
+      transport.on('log', (message: string) => lines.push(message));
+      await transport.connect();
+      await delay(300);
+
+      expect(lines).toEqual(['Error: boom', '    at ab (x.js:1:1)', 'done']);
+    });
+
+    it('should parse structured logs and keep a bounded buffer of recent lines', async () => {
+      transport = new StdioTransport({
+        command: 'node',
+        args: [
+          '-e',
+          `for (let i = 1; i <= 5; i++) console.error(JSON.stringify({ level: 30, msg: 'line ' + i, n: i })); setInterval(() => {}, 1000)`,
+        ],
+        structuredLogs: true,
+        logBufferSize: 3,
+      });
+
+      const infos: unknown[] = [];
+      transport.on('log', (_message: string, info: unknown) => infos.push(info));
+      await transport.connect();
+      await delay(300);
+
+      expect(infos[0]).toEqual({
+        stream: 'stderr',
+        level: 'info',
+        msg: 'line 1',
+        fields: { n: 1 },
+      });
+      expect(transport.getRecentLogs().map((entry) => entry.msg)).toEqual([
+        'line 3',
+        'line 4',
+        'line 5',
+      ]);
+    });
   });
 });
@@ -0,0 +1,373 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it } from 'vitest';
+import { StdioClient } from '../src/client.js';
+import { ValidationError } from '../src/errors.js';
+import type { JsonSchema, StandardSchemaV1 } from '../src/types.js';
+import { runValidator } from '../src/validation.js';
+import { waitForEvent } from './helpers.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const echoServerPath = join(__dirname, 'fixtures', 'echo-server.js');
+
+const addParams: JsonSchema = {
+  type: 'object',
+  properties: { a: { type: 'number' }, b: { type: 'number' } },
+  required: ['a', 'b'],
+};
+
+/**
+ * Minimal Standard Schema implementation for `{ text }` that trims the text and rejects empty ones
+ */
+function trimmedText(
+  options: { async?: boolean } = {}
+): StandardSchemaV1<unknown, { text: string }> {
+  const validate = (value: unknown) => {
+    const text = (value as { text?: unknown } | null)?.text;
+    if (typeof text !== 'string' || text.trim() === '') {
+      return { issues: [{ message: 'Expected a non-empty string', path: [{ key: 'text' }] }] };
+    }
+    return { value: { text: text.trim() } };
+  };
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: options.async ? async (value) => validate(value) : validate,
+    },
+  };
+}
+
+describe('validation', () => {
+  describe('runValidator with JSON Schema', () => {
+    it('should accept valid values unchanged', () => {
+      expect(runValidator(addParams, { a: 1, b: 2 })).toEqual({ value: { a: 1, b: 2 } });
+    });
+
+    it('should report type errors with their path', () => {
+      expect(runValidator(addParams, { a: 'one', b: 2 })).toEqual({
+        issues: [{ message: 'Expected number, received string', path: ['a'] }],
+      });
+    });
+
+    it('should report missing and unexpected properties', () => {
+      const schema: JsonSchema = { ...addParams, additionalProperties: false };
+
+      expect(runValidator(schema, { a: 1, c: 3 })).toEqual({
+        issues: [
+          { message: 'Required property is missing', path: ['b'] },
+          { message: 'Unexpected property', path: ['c'] },
+        ],
+      });
+    });
+
+    it('should not treat inherited properties as present', () => {
+      expect(runValidator({ type: 'object', required: ['toString'] }, {})).toEqual({
+        issues: [{ message: 'Required property is missing', path: ['toString'] }],
+      });
+    });
+
+    it('should check array items, bounds, enums and patterns', () => {
+      const schema: JsonSchema = {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            level: { enum: ['info', 'warn'] },
+            code: { type: 'integer', minimum: 0 },
+            uri: { type: 'string', pattern: '^file://' },
+          },
+        },
+      };
+
+      expect(runValidator(schema, [])).toEqual({
+        issues: [{ message: 'Expected at least 1 items', path: [] }],
+      });
+      expect(runValidator(schema, [{ level: 'debug', code: -1, uri: 'http://x' }])).toEqual({
+        issues: [
+          { message: 'Expected one of ["info","warn"]', path: [0, 'level'] },
+          { message: 'Expected a number >= 0', path: [0, 'code'] },
+          { message: 'Expected a string matching ^file://', path: [0, 'uri'] },
+        ],
+      });
+    });
+
+    it('should compare enum and const values structurally, ignoring key order', () => {
+      const schema: JsonSchema = { const: { a: 1, b: [1, { c: null }] } };
+
+      expect(runValidator(schema, { b: [1, { c: null }], a: 1 })).toEqual({
+        value: { b: [1, { c: null }], a: 1 },
+      });
+      expect(runValidator(schema, { a: 1, b: [{ c: null }, 1] })).toHaveProperty('issues');
+      expect(runValidator(schema, { a: 1, b: [1, { c: null }], d: 1 })).toHaveProperty('issues');
+      expect(runValidator({ enum: [{ x: 1, y: 2 }] }, { y: 2, x: 1 })).toHaveProperty('value');
+      expect(runValidator({ enum: [[1]] }, { 0: 1 })).toHaveProperty('issues');
+    });
+
+    it('should support combinators and type unions', () => {
+      const schema: JsonSchema = {
+        anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+      };
+
+      expect(runValidator(schema, ['a', 'b'])).toEqual({ value: ['a', 'b'] });
+      expect(runValidator(schema, 1)).toEqual({
+        issues: [{ message: 'Value does not match any of the allowed schemas', path: [] }],
+      });
+      expect(runValidator({ type: ['string', 'null'] }, null)).toEqual({ value: null });
+    });
+  });
+
+  describe('runValidator with Standard Schema', () => {
+    it('should return the transformed output', () => {
+      expect(runValidator(trimmedText(), { text: '  hi ' })).toEqual({ value: { text: 'hi' } });
+    });
+
+    it('should normalize issue paths', () => {
+      expect(runValidator(trimmedText(), { text: '' })).toEqual({
+        issues: [{ message: 'Expected a non-empty string', path: ['text'] }],
+      });
+    });
+
+    it('should support async validators', async () => {
+      await expect(runValidator(trimmedText({ async: true }), { text: ' hi' })).resolves.toEqual({
+        value: { text: 'hi' },
+      });
+    });
+  });
+
+  describe('StdioClient', () => {
+    let client: StdioClient;
+
+    afterEach(async () => {
+      if (client?.isConnected()) {
+        await client.disconnect();
+      }
+    });
+
+    it('should reject requests with invalid params before sending them', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: { requests: { add: { params: addParams } } },
+      });
+      await client.connect();
+
+      const error = await client.request('add', { a: 'one', b: 2 }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toMatchObject({
+        method: 'add',
+        direction: 'outgoing',
+        part: 'params',
+        path: ['a'],
+        message: 'Invalid params for add (outgoing) at a: Expected number, received string',
+      });
+      expect(await client.request('add', { a: 1, b: 2 })).toEqual({ sum: 3 });
+    });
+
+    it('should validate and transform results', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: {
+          requests: {
+            add: { result: { type: 'object', properties: { sum: { type: 'string' } } } },
+            echo: { params: trimmedText({ async: true }), result: trimmedText() },
+          },
+        },
+      });
+      await client.connect();
+
+      await expect(client.request('add', { a: 1, b: 2 })).rejects.toMatchObject({
+        name: 'ValidationError',
+        direction: 'incoming',
+        part: 'result',
+        path: ['sum'],
+      });
+      expect(await client.request('echo', { text: '  padded  ' })).toEqual({ text: 'padded' });
+    });
+
+    it('should throw for invalid notifications', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: { notifications: { log: { params: { type: 'object' } } } },
+      });
+      await client.connect();
+
+      expect(() => client.notify('log', 'not an object')).toThrow(ValidationError);
+      expect(() => client.notify('log', { message: 'ok' })).not.toThrow();
+    });
+
+    it('should report throwing validators as ValidationError for requests and notifications', async () => {
+      const throwing: StandardSchemaV1 = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: () => {
+            throw new Error('validator blew up');
+          },
+        },
+      };
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: {
+          requests: { echo: { params: throwing } },
+          notifications: { log: { params: throwing } },
+        },
+      });
+      await client.connect();
+
+      await expect(client.request('echo', {})).rejects.toMatchObject({
+        name: 'ValidationError',
+        direction: 'outgoing',
+        part: 'params',
+        message: 'Invalid params for echo (outgoing): Validator threw: validator blew up',
+      });
+      expect(() => client.notify('log', {})).toThrow(
+        new ValidationError('log', 'outgoing', 'params', [
+          { message: 'Validator threw: validator blew up', path: [] },
+        ])
+      );
+    });
+
+    it('should drop invalid server notifications with an error event', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: {
+          serverNotifications: {
+            testNotification: {
+              params: { type: 'object', properties: { message: { type: 'number' } } },
+            },
+          },
+        },
+      });
+      await client.connect();
+      const notifications: string[] = [];
+      client.on('notification', (method) => notifications.push(method));
+
+      const errorPromise = waitForEvent<ValidationError>(client, 'error');
+      await client.request('notify');
+      const error = await errorPromise;
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.direction).toBe('incoming');
+      expect(error.path).toEqual(['message']);
+      expect(notifications).toEqual([]);
+    });
+
+    it('should emit an error when a server notification validator throws', async () => {
+      const throwing: StandardSchemaV1 = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: () => {
+            throw new Error('validator blew up');
+          },
+        },
+      };
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: { serverNotifications: { testNotification: { params: throwing } } },
+      });
+      await client.connect();
+
+      const errorPromise = waitForEvent<Error>(client, 'error');
+      await client.request('notify');
+
+      expect((await errorPromise).message).toBe('validator blew up');
+      expect(client.isConnected()).toBe(true);
+    });
+
+    it('should answer server requests with -32603 when their validator throws', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: {
+          serverRequests: {
+            'roots/list': {
+              params: { type: 'object', properties: { name: { type: 'string', pattern: '(' } } },
+            },
+          },
+        },
+      });
+      await client.connect();
+      client.onRequest('roots/list', () => ({ roots: [] }));
+
+      await expect(
+        client.request('callClient', { method: 'roots/list', params: { name: 'x' } })
+      ).rejects.toMatchObject({
+        code: -32603,
+        message: expect.stringContaining('regular expression'),
+      });
+    });
+
+    it('should answer server requests with invalid params with -32602', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: {
+          serverRequests: {
+            'workspace/configuration': {
+              params: { type: 'object', required: ['items'] },
+            },
+          },
+        },
+      });
+      await client.connect();
+      let called = false;
+      client.onRequest('workspace/configuration', () => {
+        called = true;
+        return [];
+      });
+
+      await expect(
+        client.request('callClient', { method: 'workspace/configuration', params: {} })
+      ).rejects.toMatchObject({
+        code: -32602,
+        message: 'Invalid params',
+        data: { path: ['items'] },
+      });
+      expect(called).toBe(false);
+    });
+
+    it('should not send handler results that fail validation', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: {
+          serverRequests: { 'roots/list': { result: { type: 'object', required: ['roots'] } } },
+        },
+      });
+      await client.connect();
+      client.onRequest('roots/list', () => ({}));
+
+      await expect(client.request('callClient', { method: 'roots/list' })).rejects.toMatchObject({
+        code: -32603,
+        message: 'Invalid result for roots/list (outgoing) at roots: Required property is missing',
+      });
+    });
+
+    it('should resolve invalid batch entries to a ValidationError without sending them', async () => {
+      client = new StdioClient({
+        command: 'node',
+        args: [echoServerPath],
+        validators: { requests: { add: { params: addParams } } },
+      });
+      await client.connect();
+
+      const [invalid, valid] = await client.batch([
+        { method: 'add', params: { a: 1 } },
+        { method: 'add', params: { a: 1, b: 2 } },
+      ]);
+
+      expect(invalid?.[0]).toBeInstanceOf(ValidationError);
+      expect(valid).toEqual([null, { sum: 3 }]);
+    });
+  });
+});
@@ -5,6 +5,9 @@ export default defineConfig({
     index: 'src/index.ts',
     client: 'src/client.ts',
     transport: 'src/transport.ts',
+    mcp: 'src/mcp.ts',
+    lsp: 'src/lsp.ts',
+    server: 'src/server.ts',
   },
   format: ['esm', 'cjs'],
   dts: true,